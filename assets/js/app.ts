@@ -5,31 +5,36 @@
 // Include phoenix_html to handle method=PUT/DELETE in forms and buttons.
 import "phoenix_html";
 
+// Progressive Monaspace loading (critical first, the rest when idle)
+import "./font_loader";
+
 // Theme cycling, debug mode, hamburger menu, and music player
-import "./theme";
+import { toggleDebugMode } from "./theme";
+
+// Ctrl/Cmd+K command palette (pages and client actions)
+import "./command_palette";
 
 // Giveth QF round announcement banner (sticky top, dismissible)
 import "./giveth_banner";
 
+// Theme-colored page-loading indicator (topbar or ASCII)
+import "./page_progress";
+
 // Establish Phoenix Socket and LiveView configuration.
 import { Socket } from "phoenix";
 import { LiveSocket } from "phoenix_live_view";
-import topbar from "../vendor/topbar";
-import Hooks from "./hooks";
+import Hooks, { getLazyHookStatus, lazyHookPrefetcher } from "./hooks";
+import { DebugPanel } from "./modules/DebugPanel";
+import { MonospaceGrid } from "./modules/MonospaceGrid";
+import { ConnectionStatus, reconnectAfterMs } from "./modules/ConnectionStatus";
+import { OfflineQueue } from "./modules/OfflineQueue";
+import type { PhoenixLiveReloader } from "./dev_tools";
 
 // Type definitions
 
-interface PhoenixLiveReloader {
-  enableServerLogs: () => void;
-  disableServerLogs: () => void;
-  openEditorAtCaller: (element: EventTarget) => void;
-  openEditorAtDef: (element: EventTarget) => void;
-}
-
 declare global {
   interface Window {
     liveSocket?: LiveSocket;
-    liveReloader?: PhoenixLiveReloader;
   }
 }
 
@@ -43,110 +48,53 @@ const getCsrfToken = (): string => {
   return metaTag.getAttribute("content") || "";
 };
 
+// Hook pushEvents made while disconnected are replayed on reconnect, except
+// client telemetry: a report replayed after an outage is out of date
+const offlineQueue = new OfflineQueue({
+  skipEvents: ["grid_alignment", "font_timings", "hook_load_failed"],
+});
+
 // Initialize LiveSocket
 const csrfToken = getCsrfToken();
 const liveSocket = new LiveSocket("/live", Socket, {
   longPollFallbackMs: 2500,
+  reconnectAfterMs,
   params: { _csrf_token: csrfToken },
-  hooks: Hooks,
-});
-
-// Configure progress bar
-topbar.config({
-  barColors: { 0: "#29d" },
-  shadowColor: "rgba(0, 0, 0, .3)"
+  hooks: offlineQueue.wrapHooks(Hooks),
 });
 
-// Show progress bar on live navigation and form submits
-window.addEventListener("phx:page-loading-start", (_info: Event) => {
-  topbar.show(300);
-});
-
-window.addEventListener("phx:page-loading-stop", (_info: Event) => {
-  topbar.hide();
-});
+// Connection badge (long-poll / reconnecting / offline) with retry countdown;
+// started first so it sees a remembered long-poll fallback on connect
+new ConnectionStatus(liveSocket, { queue: offlineQueue }).start();
 
 // Connect if there are any LiveViews on the page
 liveSocket.connect();
 
+// Load heavy hooks ahead of the pages that need them
+lazyHookPrefetcher.start();
+
 // Expose liveSocket on window for web console debug logs and latency simulation
 window.liveSocket = liveSocket;
 
-// Development-only features
-if (process.env.NODE_ENV === "development") {
-  // Enable debug mode
-  // liveSocket.enableDebug();
-
-  // Phoenix Live Reload integration
-  window.addEventListener("phx:live_reload:attached", (event: Event) => {
-    const customEvent = event as CustomEvent<PhoenixLiveReloader>;
-    const reloader = customEvent.detail;
-
-    if (!reloader) {
-      console.warn("Live reloader not available");
-      return;
-    }
-
-    // Store reloader reference
-    window.liveReloader = reloader;
-
-    // Enable server log streaming to client
-    try {
-      reloader.enableServerLogs();
-      console.log("Server log streaming enabled");
-    } catch (error) {
-      console.error("Failed to enable server logs:", error);
-    }
-
-    // Set up editor integration
-    setupEditorIntegration(reloader);
-  });
-}
-
-/**
- * Sets up click-to-open editor integration for development
- * @param reloader - Phoenix live reloader instance
- */
-function setupEditorIntegration(reloader: PhoenixLiveReloader): void {
-  let keyDown: string | null = null;
+// Page-wide cell metrics: --cell-width / --cell-height / --grid-cols on <body>
+MonospaceGrid.page();
 
-  // Track key presses
-  window.addEventListener("keydown", (e: KeyboardEvent) => {
-    keyDown = e.key;
-  });
+// Diagnostics overlay shown while debug mode (Shift+D) is on
+new DebugPanel({
+  getHookStatus: getLazyHookStatus,
+  onClose: toggleDebugMode,
+}).start();
 
-  window.addEventListener("keyup", () => {
-    keyDown = null;
+// Development-only features: component inspector, server log overlay, latency sim
+if (process.env.NODE_ENV === "development") {
+  // The live reload frame can attach before the dev tools chunk arrives;
+  // setupDevTools picks up a reloader stored here
+  window.addEventListener("phx:live_reload:attached", (event: Event) => {
+    const reloader = (event as CustomEvent<PhoenixLiveReloader>).detail;
+    if (reloader) window.liveReloader = reloader;
   });
 
-  // Handle clicks with modifier keys
-  window.addEventListener(
-    "click",
-    (e: MouseEvent) => {
-      if (!e.target || !(e.target instanceof Element)) {
-        return;
-      }
-
-      try {
-        if (keyDown === "c") {
-          // Open at caller location
-          e.preventDefault();
-          e.stopImmediatePropagation();
-          reloader.openEditorAtCaller(e.target);
-        } else if (keyDown === "d") {
-          // Open at function component definition location
-          e.preventDefault();
-          e.stopImmediatePropagation();
-          reloader.openEditorAtDef(e.target);
-        }
-      } catch (error) {
-        console.error("Failed to open editor:", error);
-      }
-    },
-    true // Use capture phase
-  );
-
-  console.log("Editor integration enabled (use 'c' or 'd' + click)");
+  import("./dev_tools").then(({ setupDevTools }) => setupDevTools(liveSocket));
 }
 
 // Log successful initialization
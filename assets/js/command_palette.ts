@@ -0,0 +1,128 @@
+/**
+ * Site command palette (Ctrl/Cmd+K): pages and client actions
+ *
+ * Hooks can add commands while mounted:
+ *   this.removeCommand = commandPalette.register({ id, title, run })
+ * and call this.removeCommand() in destroyed().
+ */
+
+import { CommandPalette } from "./modules/CommandPalette";
+import { shortcuts, shortcutHelp } from "./shortcuts";
+import { cycleTheme, openThemePicker, toggleDebugMode, toggleMusicPlayer } from "./theme";
+
+declare global {
+  interface Window {
+    commandPalette?: CommandPalette;
+  }
+}
+
+interface PaletteRoute {
+  path: string;
+  title: string;
+  keywords?: string[];
+}
+
+const ROUTES: PaletteRoute[] = [
+  { path: "/", title: "Home", keywords: ["index", "start"] },
+  { path: "/about", title: "About" },
+  { path: "/now", title: "Now", keywords: ["current", "status"] },
+  { path: "/projects", title: "Projects", keywords: ["work", "portfolio"] },
+  { path: "/posts", title: "Posts", keywords: ["writing", "blog"] },
+  { path: "/resume", title: "Resume", keywords: ["cv", "experience"] },
+  { path: "/contact", title: "Contact", keywords: ["email", "message"] },
+  { path: "/sitemap", title: "Sitemap", keywords: ["pages", "index"] },
+  { path: "/dev/pattern-gallery", title: "Pattern Gallery", keywords: ["patterns", "svg"] },
+];
+
+// LiveView 1.1's public navigation API, newer than @types/phoenix_live_view
+interface NavigatingLiveSocket {
+  isConnected(): boolean;
+  js(): {
+    navigate(href: string): void;
+    patch(href: string): void;
+  };
+}
+
+export const commandPalette = new CommandPalette(() => shortcuts.pushModalScope());
+
+/**
+ * Navigate within the LiveView session when possible
+ *
+ * Same path (query change) is a live patch; another page is a live redirect,
+ * which the server turns into a full load when it crosses a live_session.
+ * Without a connected root view this falls back to a regular page load.
+ */
+export function navigate(path: string): void {
+  const target = new URL(path, window.location.origin);
+  if (target.href === window.location.href) return;
+
+  const liveSocket = window.liveSocket as NavigatingLiveSocket | undefined;
+  const hasRootView = document.querySelector("[data-phx-main]") !== null;
+  if (!liveSocket || !hasRootView || !liveSocket.isConnected()) {
+    window.location.assign(target.href);
+    return;
+  }
+
+  if (target.pathname === window.location.pathname) {
+    liveSocket.js().patch(target.href);
+  } else {
+    liveSocket.js().navigate(target.href);
+  }
+}
+
+ROUTES.forEach(route => {
+  commandPalette.register({
+    id: `route:${route.path}`,
+    title: route.title,
+    group: "Go to",
+    hint: route.path,
+    keywords: route.keywords,
+    run: () => navigate(route.path),
+  });
+});
+
+commandPalette.register({
+  id: "theme.pick",
+  title: "Choose theme…",
+  keywords: ["color", "appearance"],
+  run: openThemePicker,
+});
+
+commandPalette.register({
+  id: "theme.cycle",
+  title: "Cycle theme",
+  keywords: ["color", "next"],
+  run: cycleTheme,
+});
+
+commandPalette.register({
+  id: "debug.toggle",
+  title: "Toggle debug mode",
+  keywords: ["grid", "diagnostics"],
+  run: toggleDebugMode,
+});
+
+commandPalette.register({
+  id: "music.toggle",
+  title: "Toggle music player",
+  keywords: ["spotify", "audio"],
+  run: toggleMusicPlayer,
+});
+
+commandPalette.register({
+  id: "help",
+  title: "Keyboard shortcuts",
+  keywords: ["keys", "bindings", "help"],
+  run: () => shortcutHelp.open(),
+});
+
+shortcuts.register({
+  id: "palette.open",
+  keys: "Mod+k",
+  description: "Open command palette",
+  allowInInput: true,
+  handler: () => commandPalette.toggle(),
+});
+
+// Exposed for hooks in other bundles and the console
+window.commandPalette = commandPalette;
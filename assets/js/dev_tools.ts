@@ -0,0 +1,121 @@
+/**
+ * Development tools - only loaded in development mode
+ * Component inspector (hold Alt to highlight, c/d + click to open the editor),
+ * server log / LiveView event / debug / latency overlay (Alt+Shift+L) and
+ * page load timing
+ */
+
+import type { LiveSocket } from "phoenix_live_view";
+import { ComponentInspector, EditorOpener } from "./modules/ComponentInspector";
+import { DevOverlay, ServerLogSource } from "./modules/DevOverlay";
+import { EventRecorder } from "./modules/EventRecorder";
+import { commandPalette } from "./command_palette";
+import { shortcuts } from "./shortcuts";
+
+export interface PhoenixLiveReloader extends EditorOpener, ServerLogSource {}
+
+declare global {
+  interface Window {
+    liveReloader?: PhoenixLiveReloader;
+    devOverlay?: DevOverlay;
+    eventRecorder?: EventRecorder;
+  }
+}
+
+// JavaScript transferred above this triggers a console warning
+const BUNDLE_WARNING_BYTES = 500000;
+
+export function setupDevTools(liveSocket: LiveSocket): void {
+  const inspector = new ComponentInspector();
+  const recorder = new EventRecorder(liveSocket);
+  const overlay = new DevOverlay(liveSocket, { recorder });
+  inspector.start();
+  recorder.start();
+  overlay.start();
+
+  // Phoenix Live Reload integration
+  const attachReloader = (reloader: PhoenixLiveReloader) => {
+    window.liveReloader = reloader;
+    overlay.attachReloader(reloader);
+    inspector.setReloader(reloader);
+  };
+
+  // Attached before this chunk loaded (app.ts stores it)
+  if (window.liveReloader) attachReloader(window.liveReloader);
+
+  window.addEventListener("phx:live_reload:attached", (event: Event) => {
+    const reloader = (event as CustomEvent<PhoenixLiveReloader>).detail;
+    if (!reloader) {
+      console.warn("Live reloader not available");
+      return;
+    }
+    attachReloader(reloader);
+  });
+
+  shortcuts.register({
+    id: "dev.overlay",
+    keys: "Alt+Shift+l",
+    description: "Toggle dev overlay (server logs, events, debug, latency)",
+    allowInInput: true,
+    handler: () => overlay.toggle(),
+  });
+
+  commandPalette.register({
+    id: "dev.overlay",
+    title: "Toggle dev overlay",
+    group: "Dev",
+    keywords: ["logs", "server", "events", "latency", "debug"],
+    run: () => overlay.toggle(),
+  });
+
+  commandPalette.register({
+    id: "dev.events.export",
+    title: "Export LiveView events as JSON",
+    group: "Dev",
+    keywords: ["events", "record", "download", "bug report"],
+    run: () => recorder.download(),
+  });
+
+  setupPageLoadTiming();
+  warnOnBundleSize();
+
+  window.devOverlay = overlay;
+  window.eventRecorder = recorder;
+  console.log("[DEV] Development tools loaded (hold Alt to inspect, c/d + click to open editor)");
+}
+
+/**
+ * Logs how long each live navigation took
+ */
+function setupPageLoadTiming(): void {
+  if (!window.performance?.mark) return;
+
+  window.addEventListener("phx:page-loading-start", () => {
+    performance.mark("phx-page-start");
+  });
+
+  window.addEventListener("phx:page-loading-stop", () => {
+    if (performance.getEntriesByName("phx-page-start").length === 0) return;
+
+    performance.mark("phx-page-end");
+    const measure = performance.measure("phx-page-load", "phx-page-start", "phx-page-end");
+    console.log(`Page load time: ${measure.duration.toFixed(2)}ms`);
+    performance.clearMarks("phx-page-start");
+  });
+}
+
+/**
+ * Warns when the page pulled in more JavaScript than expected
+ */
+function warnOnBundleSize(): void {
+  if (!window.performance?.getEntriesByType) return;
+
+  const resources = performance.getEntriesByType("resource") as PerformanceResourceTiming[];
+  const totalSize = resources
+    .filter((resource) => resource.name.includes(".js"))
+    .reduce((total, resource) => total + (resource.transferSize || 0), 0);
+
+  if (totalSize > BUNDLE_WARNING_BYTES) {
+    console.warn(`[WARNING] Bundle size warning: ${(totalSize / 1024).toFixed(2)}KB of JavaScript loaded`);
+  }
+}
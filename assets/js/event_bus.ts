@@ -0,0 +1,22 @@
+/**
+ * Shared client-side event bus
+ * Modules and hooks publish here instead of dispatching ad-hoc phx:* CustomEvents on document
+ */
+
+import { EventManager } from "./modules/EventManager";
+import type { ClientEvents } from "./types";
+
+declare global {
+  interface Window {
+    eventBus?: EventManager<ClientEvents>;
+  }
+}
+
+export const eventBus = new EventManager<ClientEvents>();
+
+// SpotifyBridge lives in the separately built Astro bundle and still listens on document
+eventBus.on("spotify:command", (command) => {
+  document.dispatchEvent(new CustomEvent("phx:spotify_command", { detail: { command } }));
+});
+
+window.eventBus = eventBus;
@@ -0,0 +1,46 @@
+/**
+ * Progressive Monaspace loading
+ * The manifest lists faces by priority; the stylesheet's @font-face rules cover the other families
+ */
+
+import { FontLoader, FontManifestEntry } from "./modules/FontLoader";
+import { eventBus } from "./event_bus";
+
+declare global {
+  interface Window {
+    fontLoader?: FontLoader;
+  }
+}
+
+const MANIFEST: FontManifestEntry[] = [
+  {
+    family: "Monaspace Argon",
+    url: "/fonts/MonaspaceArgon-Regular.woff2",
+    weight: "500",
+    priority: "critical",
+  },
+  {
+    family: "Monaspace Argon",
+    url: "/fonts/MonaspaceArgon-Bold.woff2",
+    weight: "800",
+    priority: "high",
+  },
+  {
+    family: "Monaspace Argon Variable",
+    url: "/fonts/MonaspaceArgonVarVF%5Bwght,wdth,slnt%5D.woff2",
+    weight: "200 800",
+    priority: "low",
+  },
+];
+
+export const fontLoader = new FontLoader({ manifest: MANIFEST });
+
+fontLoader.events.on("fonts:stable", () => eventBus.emit("fonts:stable"));
+
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", () => fontLoader.init(), { once: true });
+} else {
+  fontLoader.init();
+}
+
+window.fontLoader = fontLoader;
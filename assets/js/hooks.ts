@@ -12,6 +12,12 @@ import { MediaGridAlignHook } from './hooks/media_grid_align';
 import { ContributionGraphHook } from './hooks/contribution_graph';
 import { FocusHook } from './hooks/focus';
 import { AbbrPopoverHook } from './hooks/abbr_popover';
+import { FontTelemetryHook } from './hooks/font_telemetry';
+import { MonospaceGridHook } from './hooks/monospace_grid';
+import { GridAlignmentHook } from './hooks/grid_alignment';
+import { createLazyHook, LazyHookEntry } from './modules/LazyHook';
+import { LazyHookPrefetcher } from './modules/LazyHookPrefetcher';
+import type { LazyHookStatus } from './types/hooks';
 
 // Modal scroll lock - prevents body scroll when modal is open
 const ModalScrollLock = {
@@ -30,35 +36,56 @@ const ModalScrollLock = {
 // - AstroSpotifyWidgetHook: ~3KB (only Spotify page)
 // - AstroSTLViewerHook: ~2KB (only STL viewer page)
 
-const LazyHooks: Record<string, () => Promise<any>> = {
-  STLViewerHook: () => import('./hooks/stl_viewer').then(m => m.STLViewerHook),
-  AstroSTLViewerHook: () => import('./hooks/astro_stl_viewer.js').then(m => m.AstroSTLViewerHook),
-  AstroSpotifyWidgetHook: () => import('./hooks/astro_spotify_widget.js').then(m => m.AstroSpotifyWidgetHook),
-  Web3WalletHook: () => import('./hooks/web3_wallet.js').then(m => m.Web3WalletHook),
+const LazyHooks: Record<string, LazyHookEntry> = {
+  STLViewerHook: {
+    load: () => import('./hooks/stl_viewer').then(m => m.STLViewerHook),
+    label: '3D viewer',
+    events: ['stl_command'],
+    dependencies: () => Promise.all([
+      import('three'),
+      import('three/examples/jsm/loaders/STLLoader.js'),
+      import('three/examples/jsm/controls/OrbitControls.js')
+    ]),
+    // No route renders it yet, so hover only covers pages it was seen on
+    prefetch: { idle: true, visible: true, hover: true },
+  },
+  AstroSTLViewerHook: {
+    load: () => import('./hooks/astro_stl_viewer.js').then(m => m.AstroSTLViewerHook),
+    label: '3D viewer',
+    events: ['stl_command'],
+    // No page renders the Astro widgets yet: don't spend idle time on them
+    prefetch: { visible: true },
+  },
+  AstroSpotifyWidgetHook: {
+    load: () => import('./hooks/astro_spotify_widget.js').then(m => m.AstroSpotifyWidgetHook),
+    label: 'Spotify player',
+    events: ['spotify_command', 'spotify_auth'],
+    prefetch: { visible: true },
+  },
+  Web3WalletHook: {
+    load: () => import('./hooks/web3_wallet.js').then(m => m.Web3WalletHook),
+    label: 'Wallet',
+    events: ['connect_wallet', 'sign_message', 'disconnect_wallet'],
+    dependencies: () => import('ethers'),
+    prefetch: { visible: true, hover: true },
+  },
 };
 
-// Create proxy hooks that load real implementation on mount
-const createLazyHook = (hookName: string) => ({
-  mounted(this: any) {
-    const loader = LazyHooks[hookName];
-    if (!loader) {
-      console.error(`Unknown lazy hook: ${hookName}`);
-      return;
-    }
+// Load state per lazy hook, read by the debug panel
+const lazyHookStatus = new Map<string, LazyHookStatus>(
+  Object.keys(LazyHooks).map(name => [name, { name, state: 'idle' }])
+);
 
-    loader()
-      .then(HookClass => {
-        const instance = new HookClass();
-        // Replace this proxy with real hook
-        Object.assign(this, instance);
-        // Call real mounted if it exists
-        if (instance.mounted) {
-          instance.mounted.call(this);
-        }
-      })
-      .catch(err => console.error(`Failed to load ${hookName}:`, err));
-  }
-});
+export const getLazyHookStatus = (): LazyHookStatus[] =>
+  Array.from(lazyHookStatus.values());
+
+// Warms up lazy hooks on idle, viewport proximity or link hover (started by app.ts)
+export const lazyHookPrefetcher = new LazyHookPrefetcher(LazyHooks, lazyHookStatus);
+
+// Proxy hooks that load the real implementation on first mount. When loading
+// fails, elements with data-report-load-failure push "hook_load_failed"
+const lazyHook = (hookName: string) =>
+  createLazyHook(hookName, LazyHooks[hookName], lazyHookStatus.get(hookName)!);
 
 export default {
   // Always loaded (lightweight, frequently used)
@@ -68,11 +95,14 @@ export default {
   ContributionGraphHook,
   FocusHook,
   AbbrPopoverHook,
+  FontTelemetryHook,
+  MonospaceGridHook,
+  GridAlignmentHook,
   ModalScrollLock,
 
   // Lazy loaded (heavy, rarely used)
-  STLViewerHook: createLazyHook('STLViewerHook'),
-  AstroSTLViewerHook: createLazyHook('AstroSTLViewerHook'),
-  AstroSpotifyWidgetHook: createLazyHook('AstroSpotifyWidgetHook'),
-  Web3WalletHook: createLazyHook('Web3WalletHook'),
+  STLViewerHook: lazyHook('STLViewerHook'),
+  AstroSTLViewerHook: lazyHook('AstroSTLViewerHook'),
+  AstroSpotifyWidgetHook: lazyHook('AstroSpotifyWidgetHook'),
+  Web3WalletHook: lazyHook('Web3WalletHook'),
 };
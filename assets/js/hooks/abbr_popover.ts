@@ -13,34 +13,32 @@
  *   <div role="tooltip" id="..." class="abbr-popover">...</div>  (appended to body)
  */
 
-interface HookContext {
-  el: HTMLElement;
-  popover?: HTMLDivElement;
-  activeAbbr?: HTMLElement | null;
-  handlers?: {
-    onClick: (e: Event) => void;
-    onFocusIn: (e: FocusEvent) => void;
-    onFocusOut: (e: FocusEvent) => void;
-    onKeyDown: (e: KeyboardEvent) => void;
-    onDocClick: (e: MouseEvent) => void;
-    onScroll: () => void;
-  };
+import { createHook } from '../modules/HookBase';
+
+interface PopoverState {
+  popover: HTMLDivElement | null;
+  activeAbbr: HTMLElement | null;
 }
 
 let popoverIdSeq = 0;
 
-export const AbbrPopoverHook = {
-  mounted(this: HookContext) {
+export const AbbrPopoverHook = createHook({
+  popover: null as HTMLDivElement | null,
+  activeAbbr: null as HTMLElement | null,
+
+  mounted() {
     const abbrs = Array.from(
       this.el.querySelectorAll<HTMLElement>('abbr[title]')
     );
     if (abbrs.length === 0) return;
 
-    this.popover = document.createElement('div');
-    this.popover.className = 'abbr-popover';
-    this.popover.setAttribute('role', 'tooltip');
-    this.popover.hidden = true;
-    document.body.appendChild(this.popover);
+    const popover = document.createElement('div');
+    popover.className = 'abbr-popover';
+    popover.setAttribute('role', 'tooltip');
+    popover.hidden = true;
+    document.body.appendChild(popover);
+    this.popover = popover;
+    this.scope.onCleanup(() => popover.remove());
 
     abbrs.forEach((abbr) => {
       const tooltip = abbr.getAttribute('title') ?? '';
@@ -51,73 +49,58 @@ export const AbbrPopoverHook = {
       abbr.setAttribute('aria-describedby', `abbr-popover-${++popoverIdSeq}`);
     });
 
-    this.handlers = {
-      onClick: (e: Event) => {
-        const target = (e.target as HTMLElement).closest('abbr[data-tooltip]');
-        if (!target) return;
+    const reposition = () => {
+      if (this.activeAbbr) position(this, this.activeAbbr);
+    };
+
+    this.scope.listen(this.el, 'click', (e) => {
+      const target = (e.target as HTMLElement).closest('abbr[data-tooltip]');
+      if (!target) return;
+      e.preventDefault();
+      this.activeAbbr === target
+        ? hidePopover(this)
+        : showPopover(this, target as HTMLElement);
+    });
+
+    this.scope.listen(this.el, 'focusin', (e) => {
+      const target = (e.target as HTMLElement).closest?.('abbr[data-tooltip]');
+      if (target) showPopover(this, target as HTMLElement);
+    });
+
+    this.scope.listen(this.el, 'focusout', (e) => {
+      const target = (e.target as HTMLElement).closest?.('abbr[data-tooltip]');
+      if (target && target === this.activeAbbr) hidePopover(this);
+    });
+
+    this.scope.listen(this.el, 'keydown', (e) => {
+      const target = (e.target as HTMLElement).closest?.('abbr[data-tooltip]');
+      if (target && (e.key === 'Enter' || e.key === ' ')) {
         e.preventDefault();
         this.activeAbbr === target
           ? hidePopover(this)
           : showPopover(this, target as HTMLElement);
-      },
-      onFocusIn: (e: FocusEvent) => {
-        const target = (e.target as HTMLElement).closest?.('abbr[data-tooltip]');
-        if (target) showPopover(this, target as HTMLElement);
-      },
-      onFocusOut: (e: FocusEvent) => {
-        const target = (e.target as HTMLElement).closest?.('abbr[data-tooltip]');
-        if (target && target === this.activeAbbr) hidePopover(this);
-      },
-      onKeyDown: (e: KeyboardEvent) => {
-        const target = (e.target as HTMLElement).closest?.('abbr[data-tooltip]');
-        if (target && (e.key === 'Enter' || e.key === ' ')) {
-          e.preventDefault();
-          this.activeAbbr === target
-            ? hidePopover(this)
-            : showPopover(this, target as HTMLElement);
-        }
-        if (e.key === 'Escape' && this.activeAbbr) {
-          const focused = this.activeAbbr;
-          hidePopover(this);
-          focused.focus();
-        }
-      },
-      onDocClick: (e: MouseEvent) => {
-        if (!this.activeAbbr) return;
-        const t = e.target as Node;
-        if (this.activeAbbr.contains(t)) return;
-        if (this.popover?.contains(t)) return;
+      }
+      if (e.key === 'Escape' && this.activeAbbr) {
+        const focused = this.activeAbbr;
         hidePopover(this);
-      },
-      onScroll: () => {
-        if (this.activeAbbr) position(this, this.activeAbbr);
-      },
-    };
+        focused.focus();
+      }
+    });
 
-    this.el.addEventListener('click', this.handlers.onClick);
-    this.el.addEventListener('focusin', this.handlers.onFocusIn);
-    this.el.addEventListener('focusout', this.handlers.onFocusOut);
-    this.el.addEventListener('keydown', this.handlers.onKeyDown);
-    document.addEventListener('click', this.handlers.onDocClick);
-    window.addEventListener('scroll', this.handlers.onScroll, { passive: true });
-    window.addEventListener('resize', this.handlers.onScroll, { passive: true });
-  },
+    this.scope.listen(document, 'click', (e) => {
+      if (!this.activeAbbr) return;
+      const t = e.target as Node;
+      if (this.activeAbbr.contains(t)) return;
+      if (this.popover?.contains(t)) return;
+      hidePopover(this);
+    });
 
-  destroyed(this: HookContext) {
-    if (this.handlers) {
-      this.el.removeEventListener('click', this.handlers.onClick);
-      this.el.removeEventListener('focusin', this.handlers.onFocusIn);
-      this.el.removeEventListener('focusout', this.handlers.onFocusOut);
-      this.el.removeEventListener('keydown', this.handlers.onKeyDown);
-      document.removeEventListener('click', this.handlers.onDocClick);
-      window.removeEventListener('scroll', this.handlers.onScroll);
-      window.removeEventListener('resize', this.handlers.onScroll);
-    }
-    this.popover?.remove();
+    this.scope.listen(window, 'scroll', reposition, { passive: true });
+    this.scope.listen(window, 'resize', reposition, { passive: true });
   },
-};
+});
 
-function showPopover(ctx: HookContext, abbr: HTMLElement) {
+function showPopover(ctx: PopoverState, abbr: HTMLElement) {
   if (!ctx.popover) return;
   ctx.popover.textContent = abbr.getAttribute('data-tooltip') ?? '';
   ctx.popover.id = abbr.getAttribute('aria-describedby') ?? '';
@@ -126,13 +109,13 @@ function showPopover(ctx: HookContext, abbr: HTMLElement) {
   position(ctx, abbr);
 }
 
-function hidePopover(ctx: HookContext) {
+function hidePopover(ctx: PopoverState) {
   if (!ctx.popover) return;
   ctx.popover.hidden = true;
   ctx.activeAbbr = null;
 }
 
-function position(ctx: HookContext, abbr: HTMLElement) {
+function position(ctx: PopoverState, abbr: HTMLElement) {
   if (!ctx.popover) return;
   const rect = abbr.getBoundingClientRect();
   const pop = ctx.popover;
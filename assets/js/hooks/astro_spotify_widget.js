@@ -3,6 +3,8 @@
  * Phoenix LiveView hook that integrates with Astro Spotify Widget component
  */
 
+import { eventBus } from '../event_bus';
+
 export const AstroSpotifyWidgetHook = {
   mounted() {
     console.log('Astro Spotify Widget hook mounted');
@@ -86,11 +88,10 @@ export const AstroSpotifyWidgetHook = {
   },
 
   sendCommandToAstro(payload) {
-    // Dispatch command to Astro component
-    const event = new CustomEvent('phx:spotify_command', {
-      detail: payload
-    });
-    document.dispatchEvent(event);
+    // The bus forwards commands to the Astro component (and the music player)
+    if (payload && payload.command) {
+      eventBus.emit('spotify:command', payload.command);
+    }
   },
 
   handleAuthEvent(payload) {
@@ -4,6 +4,8 @@
  * Supports mouse and keyboard (arrow keys) navigation.
  */
 
+import { createHook } from '../modules/HookBase';
+
 const MONTHS = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'];
 const DAYS = ['Sun','Mon','Tue','Wed','Thu','Fri','Sat'];
 
@@ -12,11 +14,15 @@ function formatDate(iso: string): string {
   return `${DAYS[d.getDay()]}, ${MONTHS[d.getMonth()]} ${d.getDate()}`;
 }
 
-export const ContributionGraphHook = {
+export const ContributionGraphHook = createHook({
+  tooltip: null as HTMLElement | null,
+  activeCell: null as HTMLElement | null,
+  cells: null as HTMLElement[] | null,
+
   mounted() {
-    this.tooltip = this.el.querySelector('.contrib-tooltip');
-    this.activeCell = null as HTMLElement | null;
-    this.cells = [] as HTMLElement[];
+    this.tooltip = this.el.querySelector<HTMLElement>('.contrib-tooltip');
+    this.activeCell = null;
+    this.cells = [];
     this._setup();
   },
 
@@ -24,7 +30,7 @@ export const ContributionGraphHook = {
     this.cells = Array.from(
       this.el.querySelectorAll('.contrib-cell[data-date]')
     ) as HTMLElement[];
-    this.tooltip = this.el.querySelector('.contrib-tooltip');
+    this.tooltip = this.el.querySelector<HTMLElement>('.contrib-tooltip');
     this._scrollToRecent();
   },
 
@@ -35,33 +41,34 @@ export const ContributionGraphHook = {
       this.el.querySelectorAll('.contrib-cell[data-date]')
     ) as HTMLElement[];
 
-    this.el.addEventListener('mouseover', (e: MouseEvent) => {
+    this.scope.listen(this.el, 'mouseover', (e) => {
       const cell = (e.target as HTMLElement).closest('.contrib-cell[data-date]');
       if (cell instanceof HTMLElement) this._showTooltip(cell);
     });
 
-    this.el.addEventListener('mouseout', (e: MouseEvent) => {
+    this.scope.listen(this.el, 'mouseout', (e) => {
       if ((e.target as HTMLElement).closest('.contrib-cell')) this._hideTooltip();
     });
 
-    this.el.addEventListener('focus', (e: FocusEvent) => {
+    this.scope.listen(this.el, 'focus', (e) => {
       const cell = e.target as HTMLElement;
       if (cell.classList.contains('contrib-cell') && cell.dataset.date) {
         this._showTooltip(cell);
       }
-    }, true);
+    }, { capture: true });
 
-    this.el.addEventListener('blur', (e: FocusEvent) => {
+    this.scope.listen(this.el, 'blur', (e) => {
       if ((e.target as HTMLElement).classList.contains('contrib-cell')) {
         this._hideTooltip();
       }
-    }, true);
+    }, { capture: true });
 
-    this.el.addEventListener('keydown', (e: KeyboardEvent) => {
+    this.scope.listen(this.el, 'keydown', (e) => {
       const cell = e.target as HTMLElement;
       if (!cell.classList.contains('contrib-cell')) return;
 
-      const idx = this.cells.indexOf(cell);
+      const cells = this.cells ?? [];
+      const idx = cells.indexOf(cell);
       if (idx === -1) return;
 
       let next = -1;
@@ -73,11 +80,11 @@ export const ContributionGraphHook = {
         default: return;
       }
 
-      if (next >= 0 && next < this.cells.length) {
+      if (next >= 0 && next < cells.length) {
         e.preventDefault();
         cell.setAttribute('tabindex', '-1');
-        this.cells[next].setAttribute('tabindex', '0');
-        this.cells[next].focus();
+        cells[next].setAttribute('tabindex', '0');
+        cells[next].focus();
       }
     });
 
@@ -147,4 +154,4 @@ export const ContributionGraphHook = {
       graph.scrollLeft = graph.scrollWidth;
     }
   }
-};
+});
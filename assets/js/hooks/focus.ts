@@ -3,13 +3,15 @@
  * Handles focus events from LiveView server
  */
 
-export const FocusHook = {
+import { createHook } from "../modules/HookBase";
+
+export const FocusHook = createHook({
   mounted() {
-    this.handleEvent("focus", ({ target }: { target: string }) => {
+    this.scope.handleEvent("focus", ({ target }: { target: string }) => {
       const element = document.getElementById(target);
       if (element) {
         // Small delay to ensure DOM is updated after LiveView patch
-        requestAnimationFrame(() => {
+        this.scope.requestAnimationFrame(() => {
           element.focus();
           // Scroll into view if needed
           element.scrollIntoView({ behavior: "smooth", block: "center" });
@@ -17,4 +19,4 @@ export const FocusHook = {
       }
     });
   },
-};
+});
@@ -0,0 +1,31 @@
+/**
+ * LiveView hook that reports real-world font load timings
+ * Pushes "font_timings" once per page load, after every font tier has
+ * settled; rendered by the app layout and handled in
+ * DroodotfooWeb.Live.ClientTelemetry. Live navigation remounts the hook but
+ * doesn't reload fonts, so later mounts stay quiet.
+ */
+import { createHook } from '../modules/HookBase';
+import { FontLoader } from '../modules/FontLoader';
+import { fontLoader } from '../font_loader';
+
+let reported = false;
+
+export const FontTelemetryHook = createHook({
+  mounted() {
+    fontLoader.whenStable().then(timings => {
+      if (this.scope.disposed || reported) return;
+      reported = true;
+
+      const connection = (navigator as Navigator & { connection?: { effectiveType?: string } }).connection;
+      this.pushEvent('font_timings', {
+        timings,
+        data_mode: FontLoader.dataMode(),
+        effective_type: connection?.effectiveType ?? null,
+      }).catch(() => {
+        // Not delivered: let the next mount try again
+        reported = false;
+      });
+    });
+  },
+});
@@ -0,0 +1,33 @@
+/**
+ * LiveView hook that watches grid alignment of its element's content
+ * Pushes "grid_alignment" summaries when misalignments change (at most every
+ * 30s, overridable with data-report-interval in ms); the main live_session
+ * handles them in DroodotfooWeb.Live.ClientTelemetry. data-grid-selectors
+ * takes a semicolon-separated list of selectors to check (default ".cell"),
+ * data-grid-edges a space-separated list of edges (default "top left")
+ */
+import { createHook } from '../modules/HookBase';
+import { GridAlignment } from '../modules/GridAlignment';
+import { GridAlignmentMonitor } from '../modules/GridAlignmentMonitor';
+import { GridEdge } from '../types';
+
+export const GridAlignmentHook = createHook({
+  mounted() {
+    const { gridSelectors, gridEdges, reportInterval } = this.el.dataset;
+    const interval = Number(reportInterval);
+    const edges = gridEdges?.split(/\s+/).filter((edge): edge is GridEdge =>
+      GridAlignment.EDGES.includes(edge as GridEdge));
+
+    const monitor = new GridAlignmentMonitor(this.el, {
+      selectors: gridSelectors ? gridSelectors.split(';').map(s => s.trim()).filter(Boolean) : undefined,
+      edges: edges?.length ? edges : undefined,
+      reportInterval: Number.isFinite(interval) && interval > 0 ? interval : undefined,
+      // Best effort: reports the offline queue had to drop are not retried
+      report: summary => {
+        this.pushEvent('grid_alignment', summary).catch(() => {});
+      },
+    });
+    monitor.start();
+    this.scope.onCleanup(() => monitor.stop());
+  },
+});
@@ -3,35 +3,40 @@
  * Aligns images and videos to the monospace grid for visual consistency
  */
 import { MediaGridAlignment } from '../modules/MediaGridAlignment';
+import { createHook } from '../modules/HookBase';
 
-export const MediaGridAlignHook = {
-  mounted(this: any) {
+export const MediaGridAlignHook = createHook({
+  gridAlignment: null as MediaGridAlignment | null,
+
+  mounted() {
     try {
       // Get line height from CSS variable or compute it
       const lineHeight = MediaGridAlignment.getLineHeight(this.el);
 
-      // Initialize grid alignment
-      this.gridAlignment = new MediaGridAlignment({
+      // Initialize grid alignment; its resize listener and observer go with the hook
+      const gridAlignment = new MediaGridAlignment({
         lineHeight,
         selector: 'img, video, iframe',
         autoResize: true,
       });
+      this.gridAlignment = gridAlignment;
+      this.scope.onCleanup(() => gridAlignment.destroy());
 
       // Align all media in container
-      this.gridAlignment.alignContainer(this.el);
+      gridAlignment.alignContainer(this.el);
 
       // Enable auto-resize on window changes
-      this.gridAlignment.enableAutoResize(this.el);
+      gridAlignment.enableAutoResize(this.el);
 
       // Observe for new media elements (e.g., lazy-loaded images)
-      this.gridAlignment.observeContainer(this.el);
+      gridAlignment.observeContainer(this.el);
 
     } catch (error) {
       console.warn('MediaGridAlign hook failed to initialize:', error);
     }
   },
 
-  updated(this: any) {
+  updated() {
     try {
       // Realign media after LiveView updates
       if (this.gridAlignment) {
@@ -41,15 +46,4 @@ export const MediaGridAlignHook = {
       console.warn('MediaGridAlign hook failed to update:', error);
     }
   },
-
-  destroyed(this: any) {
-    try {
-      // Clean up observers and event listeners
-      if (this.gridAlignment) {
-        this.gridAlignment.destroy();
-      }
-    } catch (error) {
-      console.warn('MediaGridAlign hook failed to destroy:', error);
-    }
-  }
-};
+});
@@ -0,0 +1,24 @@
+/**
+ * Monospace grid hook
+ * Publishes --cell-width, --cell-height and --grid-cols on the element and
+ * makes it the grid that MonospaceGrid.forElement() finds for its children
+ *
+ * Optional attributes: data-font-size, data-line-height (CSS lengths) for
+ * containers whose text is styled on a child rather than the element itself
+ */
+
+import { createHook } from '../modules/HookBase';
+import { MonospaceGrid } from '../modules/MonospaceGrid';
+
+export const MonospaceGridHook = createHook({
+  grid: null as MonospaceGrid | null,
+
+  mounted() {
+    const grid = new MonospaceGrid(this.el, {
+      fontSize: this.el.dataset.fontSize,
+      lineHeight: this.el.dataset.lineHeight,
+    });
+    this.grid = grid;
+    this.scope.onCleanup(() => grid.destroy());
+  },
+});
@@ -6,24 +6,20 @@
  * THREE.js is only loaded when STL viewer is actually used.
  */
 
-interface STLViewerHook {
-  mounted: () => Promise<void>;
-  destroyed: () => void;
-  scene?: any;
-  camera?: any;
-  renderer?: any;
-  controls?: any;
-  mesh?: any;
-  animationId?: number;
-  el: HTMLElement;
-  pushEvent?: (event: string, payload: any) => void;
-  handleEvent?: (event: string, callback: (payload: any) => void) => void;
-  THREE?: any;
-  STLLoader?: any;
-  OrbitControls?: any;
-}
-
-export const STLViewerHook: Partial<STLViewerHook> = {
+import { createHook } from '../modules/HookBase';
+import { MonospaceGrid } from '../modules/MonospaceGrid';
+
+export const STLViewerHook = createHook({
+  // THREE.js is imported dynamically, so its objects are untyped here
+  scene: undefined as any,
+  camera: undefined as any,
+  renderer: undefined as any,
+  controls: undefined as any,
+  mesh: undefined as any,
+  THREE: undefined as any,
+  STLLoader: undefined as any,
+  OrbitControls: undefined as any,
+
   async mounted() {
     console.log('STL Viewer mounted - loading THREE.js...');
 
@@ -34,6 +30,9 @@ export const STLViewerHook: Partial<STLViewerHook> = {
       import('three/examples/jsm/controls/OrbitControls.js')
     ]);
 
+    // Navigated away while THREE.js was loading
+    if (this.scope.disposed) return;
+
     // Store for later use in other methods
     this.THREE = THREE;
     this.STLLoader = STLLoader;
@@ -57,6 +56,10 @@ export const STLViewerHook: Partial<STLViewerHook> = {
     canvas.id = `stl-canvas-${componentId}`;
     canvasContainer.appendChild(canvas);
 
+    // The HUD's own cell metrics, from its font rather than the page's
+    const grid = new MonospaceGrid(this.el);
+    this.scope.onCleanup(() => grid.destroy());
+
     // Position canvas using simpler grid-based approach
     this.positionCanvas();
 
@@ -113,11 +116,13 @@ export const STLViewerHook: Partial<STLViewerHook> = {
       this.renderer.setSize(width, height);
     };
 
-    window.addEventListener('resize', handleResize);
+    this.scope.listen(window, 'resize', handleResize);
+    // Font swaps change the cell size without resizing the window
+    this.scope.onCleanup(grid.on('change', handleResize));
 
-    // Animation loop
+    // Animation loop (the pending frame is cancelled when the hook is destroyed)
     const animate = () => {
-      this.animationId = requestAnimationFrame(animate);
+      this.scope.requestAnimationFrame(animate);
 
       if (this.controls) {
         this.controls.update();
@@ -129,33 +134,30 @@ export const STLViewerHook: Partial<STLViewerHook> = {
     };
     animate();
 
-    // Listen for LiveView events from component
-    if (this.handleEvent) {
-      // Unified command handler
-      this.handleEvent('stl_command', (payload: { command: { type: string; [key: string]: any } }) => {
-        const { command } = payload;
-
-        switch (command.type) {
-          case 'load':
-            this.loadModel(command.url);
-            break;
-          case 'mode':
-            this.setRenderMode(command.mode);
-            break;
-          case 'rotate':
-            this.rotateCamera(command.axis, command.angle);
-            break;
-          case 'reset':
-            this.resetCamera();
-            break;
-          case 'zoom':
-            this.zoom(command.distance);
-            break;
-          default:
-            console.warn('Unknown STL command:', command.type);
-        }
-      });
-    }
+    // Listen for LiveView events from component (unified command handler)
+    this.scope.handleEvent('stl_command', (payload: { command: { type: string; [key: string]: any } }) => {
+      const { command } = payload;
+
+      switch (command.type) {
+        case 'load':
+          this.loadModel(command.url);
+          break;
+        case 'mode':
+          this.setRenderMode(command.mode);
+          break;
+        case 'rotate':
+          this.rotateCamera(command.axis, command.angle);
+          break;
+        case 'reset':
+          this.resetCamera();
+          break;
+        case 'zoom':
+          this.zoom(command.distance);
+          break;
+        default:
+          console.warn('Unknown STL command:', command.type);
+      }
+    });
 
     // Load sample model
     this.loadModel('/models/cube.stl');
@@ -220,10 +222,10 @@ export const STLViewerHook: Partial<STLViewerHook> = {
 
         console.log('STL model loaded:', url);
       },
-      (progress) => {
+      (progress: ProgressEvent) => {
         console.log('Loading:', (progress.loaded / progress.total) * 100 + '%');
       },
-      (error) => {
+      (error: any) => {
         console.error('Error loading STL:', error);
         if (this.pushEvent) {
           this.pushEvent('model_error', { error: error.message });
@@ -325,11 +327,8 @@ export const STLViewerHook: Partial<STLViewerHook> = {
 
     if (!canvas || !canvasContainer) return;
 
-    // Get computed styles for precise positioning
-    const wrapperStyles = window.getComputedStyle(this.el);
-    const fontSize = parseFloat(wrapperStyles.fontSize);
-    const lineHeightRatio = 1.2;
-    const lineHeight = fontSize * lineHeightRatio;
+    // Cell metrics of the HUD's own grid (registered in mounted)
+    const { width: cellWidth, height: cellHeight } = MonospaceGrid.metricsFor(this.el);
 
     // 3D Viewport position in HUD grid
     // Viewport border is at row 8 (0-indexed)
@@ -340,17 +339,17 @@ export const STLViewerHook: Partial<STLViewerHook> = {
     const viewportHeight = 7; // Lines tall
 
     // Calculate positions
-    const topPx = viewportStartRow * lineHeight;
-    const leftCh = viewportStartCol;
-    const widthCh = viewportWidth;
-    const heightEm = viewportHeight * lineHeightRatio;
+    const topPx = viewportStartRow * cellHeight;
+    const leftPx = viewportStartCol * cellWidth;
+    const widthPx = viewportWidth * cellWidth;
+    const heightPx = viewportHeight * cellHeight;
 
     // Apply positioning to container
     canvasContainer.style.position = 'absolute';
     canvasContainer.style.top = `${topPx}px`;
-    canvasContainer.style.left = `${leftCh}ch`;
-    canvasContainer.style.width = `${widthCh}ch`;
-    canvasContainer.style.height = `${heightEm}em`;
+    canvasContainer.style.left = `${leftPx}px`;
+    canvasContainer.style.width = `${widthPx}px`;
+    canvasContainer.style.height = `${heightPx}px`;
 
     // Size the canvas to fill container
     canvas.style.width = '100%';
@@ -358,19 +357,15 @@ export const STLViewerHook: Partial<STLViewerHook> = {
 
     console.log('STL Canvas positioned:', {
       containerTop: `${topPx}px`,
-      containerLeft: `${leftCh}ch`,
-      canvasWidth: `${widthCh}ch`,
-      canvasHeight: `${heightEm}em`,
-      lineHeight: lineHeight
+      containerLeft: `${leftPx}px`,
+      canvasWidth: `${widthPx}px`,
+      canvasHeight: `${heightPx}px`,
+      cellWidth,
+      cellHeight
     });
   },
 
   destroyed() {
-    // Cancel animation
-    if (this.animationId) {
-      cancelAnimationFrame(this.animationId);
-    }
-
     // Dispose of Three.js resources
     if (this.renderer) {
       this.renderer.dispose();
@@ -385,7 +380,7 @@ export const STLViewerHook: Partial<STLViewerHook> = {
 
     console.log('STL Viewer destroyed');
   }
-};
+});
 
 export default {
   STLViewerHook
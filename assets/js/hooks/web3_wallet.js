@@ -8,7 +8,9 @@
  * ethers.js is only loaded when Web3 wallet functionality is actually used.
  */
 
-export const Web3WalletHook = {
+import { createHook } from "../modules/HookBase";
+
+export const Web3WalletHook = createHook({
   async mounted() {
     console.log("[Web3] Hook mounted - loading ethers.js...");
 
@@ -44,9 +46,9 @@ export const Web3WalletHook = {
     // Check if wallet is already connected on mount
     this.checkWalletConnection();
 
-    // Listen for account and chain changes
+    // Listen for account and chain changes (removed with the hook's scope)
     if (window.ethereum) {
-      window.ethereum.on("accountsChanged", (accounts) => {
+      this.scope.listen(window.ethereum, "accountsChanged", (accounts) => {
         console.log("[Web3] Accounts changed:", accounts);
         if (accounts.length === 0) {
           // Wallet disconnected
@@ -57,7 +59,7 @@ export const Web3WalletHook = {
         }
       });
 
-      window.ethereum.on("chainChanged", (chainId) => {
+      this.scope.listen(window.ethereum, "chainChanged", (chainId) => {
         console.log("[Web3] Chain changed:", chainId);
         // Reload page on chain change (recommended by MetaMask)
         window.location.reload();
@@ -67,11 +69,6 @@ export const Web3WalletHook = {
 
   destroyed() {
     console.log("[Web3] Hook destroyed");
-    // Clean up event listeners
-    if (window.ethereum) {
-      window.ethereum.removeAllListeners("accountsChanged");
-      window.ethereum.removeAllListeners("chainChanged");
-    }
   },
 
   async checkWalletConnection() {
@@ -235,4 +232,4 @@ export const Web3WalletHook = {
       console.error("[Web3] Error handling account switch:", error);
     }
   },
-};
+});
@@ -1,71 +1,190 @@
 /**
  * Module for measuring terminal cell dimensions
+ *
+ * The cell width is averaged over a run of characters rather than read from
+ * one glyph, so sub-pixel advances don't round away. Box-drawing, block
+ * element, East Asian Wide and emoji glyphs are measured separately: they
+ * often come from another font and don't land on the grid.
  */
-import { CellDimensions } from '../types';
+import { CellDimensions, CellMetrics, GlyphWidths } from '../types';
+import { EventManager, FontFilter } from './EventManager';
+
+export interface MeasurementConfig {
+  fontFamily: string;
+  fontSize: string;
+  lineHeight: string;
+  // Run whose average advance is the cell width
+  sample: string;
+}
+
+const GLYPH_SAMPLES: Record<keyof GlyphWidths, string> = {
+  boxDrawing: '─│┌┐└┘├┤┬┴┼═║╔╗╚╝',
+  block: '█▀▄▌▐░▒▓',
+  wide: '漢字日本語中文한국어カタ',
+  emoji: '😀🚀🎉👍🔥'
+};
+
+const GENERIC_FAMILIES = new Set([
+  'monospace', 'serif', 'sans-serif', 'system-ui', 'ui-monospace', 'cursive', 'fantasy'
+]);
+
+// Used when nothing could be measured (no body, hidden document)
+const DEFAULT_CELL: CellDimensions = { width: 9.6, height: 19.2 };
 
 export class CellMeasurement {
-  private static readonly DEFAULT_CONFIG = {
+  private static readonly DEFAULT_CONFIG: MeasurementConfig = {
     fontFamily: 'Monaspace Argon, monospace',
     fontSize: '16px',
     lineHeight: '1.20rem',
-    testCharacter: 'M'
+    sample: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
   };
 
   /**
-   * Measures exact character cell dimensions
+   * Fonts whose loading changes cell metrics; the Monaspace subset is
+   * swapped for the full and variable fonts after the first measurement
+   */
+  static readonly FONT_FILTER: FontFilter = { family: /^Monaspace/ };
+
+  /**
+   * Measures the character cell and the widths of wide/special glyphs
    * @param config - Optional configuration for measurement
-   * @returns Cell dimensions (width and height)
+   * @returns Cell metrics; `estimated` is set when defaults were returned
    */
-  static measure(config: Partial<typeof CellMeasurement.DEFAULT_CONFIG> = {}): CellDimensions {
+  static measure(config: Partial<MeasurementConfig> = {}): CellMetrics {
     const mergedConfig = { ...this.DEFAULT_CONFIG, ...config };
+    if (!document.body) return this.estimate('Document has no body yet');
 
-    const testElement = this.createTestElement(mergedConfig);
-    let dimensions: CellDimensions;
+    const family = this.primaryFamily(mergedConfig.fontFamily);
+    const probes = {
+      cell: this.createTestElement(mergedConfig, mergedConfig.sample),
+      ...this.mapGlyphs(sample => this.createTestElement(mergedConfig, sample)),
+      // Same run with only a generic family behind the requested one
+      monospace: this.createTestElement({ ...mergedConfig, fontFamily: `"${family}", monospace` }, mergedConfig.sample),
+      serif: this.createTestElement({ ...mergedConfig, fontFamily: `"${family}", serif` }, mergedConfig.sample),
+      genericMonospace: this.createTestElement({ ...mergedConfig, fontFamily: 'monospace' }, mergedConfig.sample),
+      genericSerif: this.createTestElement({ ...mergedConfig, fontFamily: 'serif' }, mergedConfig.sample)
+    };
 
-    try {
-      document.body.appendChild(testElement);
-      const rect = testElement.getBoundingClientRect();
+    const host = document.createElement('div');
+    host.style.position = 'fixed';
+    host.style.visibility = 'hidden';
+    host.style.pointerEvents = 'none';
+    host.style.top = '0';
+    host.style.left = '0';
+    host.append(...Object.values(probes));
 
-      dimensions = {
-        width: rect.width,
-        height: rect.height
-      };
+    try {
+      document.body.appendChild(host);
+      const widthOf = (element: HTMLElement) =>
+        element.getBoundingClientRect().width / this.codePoints(element.textContent ?? '');
 
-      if (dimensions.width <= 0 || dimensions.height <= 0) {
-        throw new Error('Invalid cell dimensions measured');
+      const cell = probes.cell.getBoundingClientRect();
+      const width = widthOf(probes.cell);
+      if (!(width > 0) || !(cell.height > 0)) {
+        return this.estimate('Invalid cell dimensions measured');
       }
 
-      console.log(`Cell dimensions measured: ${dimensions.width}x${dimensions.height}`);
+      // The family is missing if swapping the generic behind it changes nothing
+      const fallbackFont = !GENERIC_FAMILIES.has(family.toLowerCase()) &&
+        widthOf(probes.monospace) === widthOf(probes.genericMonospace) &&
+        widthOf(probes.serif) === widthOf(probes.genericSerif);
+
+      return {
+        width,
+        height: cell.height,
+        glyphs: this.mapGlyphs((_, key) => widthOf(probes[key])),
+        fallbackFont,
+        estimated: false
+      };
     } catch (error) {
-      console.error('Failed to measure cell dimensions:', error);
-      // Fallback to reasonable defaults
-      dimensions = { width: 9.6, height: 19.2 };
+      return this.estimate(error instanceof Error ? error.message : String(error));
     } finally {
-      // Always clean up the test element
-      if (testElement.parentNode) {
-        document.body.removeChild(testElement);
-      }
+      host.remove();
     }
+  }
+
+  /**
+   * Measures once fonts are ready, then again whenever a Monaspace face
+   * finishes loading and the cell size actually changed
+   * @param callback - Receives the current cell metrics
+   * @param config - Optional configuration for measurement
+   * @param events - Scope that owns the font listener (a new one by default)
+   * @returns Function that stops watching
+   */
+  static watch(
+    callback: (metrics: CellMetrics) => void,
+    config: Partial<MeasurementConfig> = {},
+    events: EventManager = new EventManager()
+  ): () => void {
+    const scope = events.createScope();
+    let last: CellMetrics | null = null;
+
+    const remeasure = () => {
+      const metrics = this.measure(config);
+      if (last && last.width === metrics.width && last.height === metrics.height &&
+          last.fallbackFont === metrics.fallbackFont) return;
+      last = metrics;
+      callback(metrics);
+    };
+
+    scope.monitorFontLoad(remeasure);
+    scope.onFontLoad(this.FONT_FILTER, remeasure);
+
+    return () => scope.cleanup();
+  }
+
+  /**
+   * Defaults for when measuring isn't possible, flagged as estimated
+   * @private
+   */
+  private static estimate(error: string): CellMetrics {
+    const { width, height } = DEFAULT_CELL;
+    return {
+      width,
+      height,
+      glyphs: { boxDrawing: width, block: width, wide: width * 2, emoji: width * 2 },
+      fallbackFont: false,
+      estimated: true,
+      error
+    };
+  }
+
+  private static mapGlyphs<T>(fn: (sample: string, key: keyof GlyphWidths) => T): Record<keyof GlyphWidths, T> {
+    const keys = Object.keys(GLYPH_SAMPLES) as (keyof GlyphWidths)[];
+    return Object.fromEntries(keys.map(key => [key, fn(GLYPH_SAMPLES[key], key)])) as Record<keyof GlyphWidths, T>;
+  }
+
+  /**
+   * First family in a font-family list, unquoted
+   * @private
+   */
+  private static primaryFamily(fontFamily: string): string {
+    return fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  }
 
-    return dimensions;
+  // Code points, so each emoji in a sample counts once
+  private static codePoints(text: string): number {
+    return Array.from(text).length || 1;
   }
 
   /**
    * Creates a test element for measurement
    * @private
    */
-  private static createTestElement(config: typeof CellMeasurement.DEFAULT_CONFIG): HTMLSpanElement {
+  private static createTestElement(config: MeasurementConfig, text: string): HTMLSpanElement {
     const element = document.createElement('span');
 
-    element.style.position = 'fixed';
-    element.style.visibility = 'hidden';
-    element.style.pointerEvents = 'none';
+    // inline-block so the box height is the line height, not the font's content area
+    element.style.display = 'inline-block';
     element.style.fontFamily = config.fontFamily;
     element.style.fontSize = config.fontSize;
     element.style.lineHeight = config.lineHeight;
     element.style.whiteSpace = 'pre';
-    element.textContent = config.testCharacter;
+    // Ligatures and kerning would change the run's total advance
+    element.style.fontVariantLigatures = 'none';
+    element.style.fontKerning = 'none';
+    element.textContent = text;
 
     return element;
   }
-}
\ No newline at end of file
+}
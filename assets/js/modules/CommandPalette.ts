@@ -0,0 +1,354 @@
+/**
+ * Module for the fuzzy-search command palette (Ctrl/Cmd+K)
+ *
+ * Commands are plain objects with a title and a run() callback. Pages and
+ * client actions are registered at startup; hooks can add their own while
+ * mounted and remove them again in destroyed().
+ */
+
+export interface PaletteCommand {
+  id: string;
+  title: string;
+  run: () => void;
+  group?: string;
+  hint?: string;
+  keywords?: string[];
+}
+
+interface PaletteMatch {
+  command: PaletteCommand;
+  score: number;
+}
+
+const DEFAULT_GROUP = 'Actions';
+const MAX_RESULTS = 50;
+
+export class CommandPalette {
+  private commands: Map<string, PaletteCommand>;
+  private overlay: HTMLDivElement | null = null;
+  private input: HTMLInputElement | null = null;
+  private listbox: HTMLUListElement | null = null;
+  private results: PaletteCommand[] = [];
+  private activeIndex = 0;
+  private previouslyFocused: HTMLElement | null = null;
+  private onOpen: (() => () => void) | null;
+  private release: (() => void) | null = null;
+
+  /**
+   * @param onOpen - Called when the palette opens; the returned function is called on close
+   */
+  constructor(onOpen?: () => () => void) {
+    this.commands = new Map();
+    this.onOpen = onOpen ?? null;
+  }
+
+  /**
+   * Adds a command; registering an existing id replaces it
+   * @returns Function that removes this registration
+   */
+  register(command: PaletteCommand): () => void {
+    if (!command.id || !command.title || typeof command.run !== 'function') {
+      throw new Error('Palette commands need an id, a title and a run() function');
+    }
+
+    this.commands.set(command.id, command);
+    this.refresh();
+
+    return () => {
+      if (this.commands.get(command.id) === command) {
+        this.unregister(command.id);
+      }
+    };
+  }
+
+  unregister(id: string): void {
+    if (this.commands.delete(id)) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Lists registered commands in registration order
+   */
+  list(): PaletteCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  toggle(): void {
+    if (this.overlay) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open(query = ''): void {
+    if (this.overlay || !document.body) return;
+
+    this.previouslyFocused = document.activeElement as HTMLElement | null;
+    this.release = this.onOpen?.() ?? null;
+
+    this.render();
+    if (this.input) {
+      this.input.value = query;
+      this.input.focus();
+    }
+    this.filter();
+  }
+
+  close(): void {
+    if (!this.overlay) return;
+
+    this.overlay.remove();
+    this.overlay = null;
+    this.input = null;
+    this.listbox = null;
+    this.results = [];
+    this.release?.();
+    this.release = null;
+
+    if (this.previouslyFocused && document.contains(this.previouslyFocused)) {
+      this.previouslyFocused.focus();
+    }
+    this.previouslyFocused = null;
+  }
+
+  /**
+   * Builds the overlay markup and attaches listeners
+   * @private
+   */
+  private render(): void {
+    const overlay = document.createElement('div');
+    overlay.className = 'command-palette-backdrop';
+    overlay.addEventListener('click', (e: MouseEvent) => {
+      if (e.target === overlay) this.close();
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'command-palette';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-label', 'Command palette');
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'command-palette-input';
+    input.placeholder = 'Go to page or run command…';
+    input.autocomplete = 'off';
+    input.spellcheck = false;
+    input.setAttribute('role', 'combobox');
+    input.setAttribute('aria-expanded', 'true');
+    input.setAttribute('aria-controls', 'command-palette-list');
+    input.setAttribute('aria-autocomplete', 'list');
+    input.addEventListener('input', () => this.filter());
+    input.addEventListener('keydown', (e: KeyboardEvent) => this.handleKeyDown(e));
+
+    const listbox = document.createElement('ul');
+    listbox.id = 'command-palette-list';
+    listbox.className = 'command-palette-list';
+    listbox.setAttribute('role', 'listbox');
+    listbox.setAttribute('aria-label', 'Commands');
+
+    const hint = document.createElement('div');
+    hint.className = 'command-palette-hint';
+    hint.setAttribute('aria-hidden', 'true');
+    hint.textContent = '↑↓ select · Enter run · Esc close';
+
+    dialog.append(input, listbox, hint);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+
+    this.overlay = overlay;
+    this.input = input;
+    this.listbox = listbox;
+  }
+
+  /**
+   * Re-runs the current query after commands change while open
+   * @private
+   */
+  private refresh(): void {
+    if (this.overlay) this.filter();
+  }
+
+  /**
+   * Ranks commands against the query and redraws the list
+   * @private
+   */
+  private filter(): void {
+    if (!this.listbox) return;
+
+    const query = this.input?.value.trim() ?? '';
+    const matches: PaletteMatch[] = [];
+
+    this.commands.forEach(command => {
+      const haystacks = [command.title, command.group ?? '', ...(command.keywords ?? [])];
+      const score = Math.max(...haystacks.map(text => CommandPalette.score(query, text)));
+      if (score > 0) matches.push({ command, score });
+    });
+
+    // Without a query keep registration order so groups stay together
+    if (query) matches.sort((a, b) => b.score - a.score);
+
+    this.results = matches.slice(0, MAX_RESULTS).map(match => match.command);
+    this.activeIndex = 0;
+
+    this.listbox.replaceChildren();
+
+    if (this.results.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'command-palette-empty';
+      empty.textContent = 'No matching commands';
+      this.listbox.appendChild(empty);
+      this.input?.removeAttribute('aria-activedescendant');
+      return;
+    }
+
+    this.results.forEach((command, index) => {
+      const option = document.createElement('li');
+      option.id = `command-palette-option-${index}`;
+      option.className = 'command-palette-option';
+      option.setAttribute('role', 'option');
+
+      const group = document.createElement('span');
+      group.className = 'command-palette-group';
+      group.textContent = command.group ?? DEFAULT_GROUP;
+
+      const title = document.createElement('span');
+      title.className = 'command-palette-title';
+      title.textContent = command.title;
+
+      option.append(group, title);
+
+      if (command.hint) {
+        const hint = document.createElement('span');
+        hint.className = 'command-palette-option-hint';
+        hint.textContent = command.hint;
+        option.appendChild(hint);
+      }
+
+      option.addEventListener('mousemove', () => {
+        if (index !== this.activeIndex) this.highlight(index);
+      });
+      option.addEventListener('click', () => this.run(index));
+
+      this.listbox!.appendChild(option);
+    });
+
+    this.highlight(0);
+  }
+
+  /**
+   * Handles navigation keys in the search field
+   * @private
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    const last = this.results.length - 1;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (last >= 0) this.highlight(this.activeIndex >= last ? 0 : this.activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (last >= 0) this.highlight(this.activeIndex <= 0 ? last : this.activeIndex - 1);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        this.run(this.activeIndex);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        this.close();
+        break;
+      case 'Tab':
+        // Keep focus inside the modal
+        e.preventDefault();
+        break;
+    }
+  }
+
+  /**
+   * Marks a result as the active option
+   * @private
+   */
+  private highlight(index: number): void {
+    if (!this.listbox) return;
+
+    this.activeIndex = index;
+    const options = this.listbox.querySelectorAll<HTMLElement>('[role="option"]');
+    options.forEach((option, i) => {
+      const selected = i === index;
+      option.setAttribute('aria-selected', String(selected));
+      option.classList.toggle('active', selected);
+    });
+
+    const active = options[index];
+    if (active) {
+      this.input?.setAttribute('aria-activedescendant', active.id);
+      active.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
+  /**
+   * Closes the palette, then runs the chosen command
+   * @private
+   */
+  private run(index: number): void {
+    const command = this.results[index];
+    if (!command) return;
+
+    // Close first so focus is restored before the command moves it
+    this.close();
+
+    try {
+      command.run();
+    } catch (error) {
+      console.error(`Error in command "${command.id}":`, error);
+    }
+  }
+
+  /**
+   * Fuzzy subsequence score; 0 means no match
+   *
+   * Every query character must appear in order. Consecutive characters and
+   * characters at the start of a word score higher, so "pg" ranks
+   * "Pattern Gallery" above "Copy page link".
+   */
+  static score(query: string, text: string): number {
+    if (!query) return 1;
+    if (!text) return 0;
+
+    const needle = query.toLowerCase();
+    const haystack = text.toLowerCase();
+
+    if (haystack.startsWith(needle)) return 1000 - haystack.length;
+
+    let score = 0;
+    let position = 0;
+    let previous = -2;
+
+    for (const char of needle) {
+      if (char === ' ') continue;
+
+      const found = haystack.indexOf(char, position);
+      if (found === -1) return 0;
+
+      score += 1;
+      if (found === previous + 1) score += 5;
+      if (found === 0 || /[\s/\-_]/.test(haystack[found - 1])) score += 10;
+
+      previous = found;
+      position = found + 1;
+    }
+
+    // Prefer shorter titles when the match quality is otherwise equal
+    return score + 1 / haystack.length;
+  }
+}
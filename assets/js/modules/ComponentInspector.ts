@@ -0,0 +1,229 @@
+/**
+ * Module for locating LiveView components under the cursor (development)
+ *
+ * Holding the modifier (Alt by default) outlines the component under the
+ * pointer and labels it with its module and source location, read from the
+ * HEEx debug annotations (`debug_heex_annotations: true`):
+ *
+ *   <!-- <DroodotfooWeb.CoreComponents.header> lib/droodotfoo_web/components/core_components.ex:120 -->
+ *
+ * Without annotations it falls back to the enclosing LiveComponent or
+ * LiveView. Holding `c` or `d` while clicking opens the editor at the
+ * caller or the definition, through the Phoenix live reloader.
+ */
+import { EventManager } from './EventManager';
+
+export interface EditorOpener {
+  openEditorAtCaller(element: EventTarget): void;
+  openEditorAtDef(element: EventTarget): void;
+}
+
+export type InspectorModifier = 'Alt' | 'Shift' | 'Control' | 'Meta';
+
+export interface ComponentInspectorOptions {
+  modifier?: InspectorModifier;
+}
+
+export interface ComponentInfo {
+  kind: 'function' | 'live_component' | 'live_view';
+  name: string;
+  location: string | null;
+  element: Element;
+}
+
+// "<Module.function> path/to/file.ex:42 (app)"
+const OPEN_ANNOTATION = /^\s*<([A-Z][\w.]*\.[\w?!]+)>\s+(\S+:\d+)/;
+const CLOSE_ANNOTATION = /^\s*<\/[A-Z][\w.]*>/;
+
+export class ComponentInspector {
+  private readonly modifier: InspectorModifier;
+  private reloader: EditorOpener | null = null;
+  private events: EventManager | null = null;
+  private held = new Set<string>();
+  private outline: HTMLElement | null = null;
+  private label: HTMLElement | null = null;
+  private pointer: { x: number; y: number } | null = null;
+  // Modifier currently held
+  private active = false;
+  private frame = 0;
+
+  constructor(options: ComponentInspectorOptions = {}) {
+    this.modifier = options.modifier ?? 'Alt';
+  }
+
+  start(): void {
+    if (this.events) return;
+    const events = new EventManager();
+    this.events = events;
+
+    events.listen(window, 'keydown', e => this.handleKeydown(e));
+    events.listen(window, 'keyup', e => {
+      this.held.delete(e.key.toLowerCase());
+      if (e.key === this.modifier) {
+        this.active = false;
+        this.clear();
+      }
+    });
+    // Keys released while the window was in the background never fire keyup
+    events.listen(window, 'blur', () => {
+      this.held.clear();
+      this.active = false;
+      this.clear();
+    });
+    events.listen(window, 'pointermove', e => {
+      this.pointer = { x: e.clientX, y: e.clientY };
+      this.active = e.getModifierState(this.modifier);
+      if (this.active) this.schedule();
+      else if (this.outline?.isConnected) this.clear();
+    }, { passive: true });
+    events.listen(window, 'scroll', () => this.schedule(), { passive: true, capture: true });
+    events.listen(window, 'click', e => this.handleClick(e), { capture: true });
+  }
+
+  stop(): void {
+    this.events?.cleanup();
+    this.events = null;
+    this.frame = 0;
+    this.held.clear();
+    this.active = false;
+    this.outline?.remove();
+    this.label?.remove();
+    this.outline = null;
+    this.label = null;
+  }
+
+  /**
+   * Enables click-to-open-editor once the live reloader is attached
+   */
+  setReloader(reloader: EditorOpener | null): void {
+    this.reloader = reloader;
+  }
+
+  /**
+   * Finds the innermost component that rendered an element
+   */
+  static describe(element: Element): ComponentInfo | null {
+    for (let node: Element | null = element; node && node !== document.body; node = node.parentElement) {
+      const annotation = ComponentInspector.annotationFor(node);
+      if (annotation) {
+        return { kind: 'function', name: annotation.name, location: annotation.location, element: node };
+      }
+
+      const cid = node.getAttribute('data-phx-component');
+      if (cid) {
+        return { kind: 'live_component', name: `LiveComponent #${cid}`, location: null, element: node };
+      }
+
+      if (node.hasAttribute('data-phx-session')) {
+        return { kind: 'live_view', name: `LiveView #${node.id}`, location: null, element: node };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reads the debug annotation comment right before an element
+   * @private
+   */
+  private static annotationFor(element: Element): { name: string; location: string } | null {
+    for (let sibling = element.previousSibling; sibling; sibling = sibling.previousSibling) {
+      if (sibling.nodeType === Node.TEXT_NODE && !sibling.textContent?.trim()) continue;
+      if (sibling.nodeType !== Node.COMMENT_NODE) return null;
+
+      const text = sibling.textContent ?? '';
+      // "@caller" comments sit between the opening annotation and the markup
+      if (text.trim().startsWith('@caller')) continue;
+      if (CLOSE_ANNOTATION.test(text)) return null;
+
+      const match = text.match(OPEN_ANNOTATION);
+      return match ? { name: match[1], location: match[2] } : null;
+    }
+
+    return null;
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    if (e.key === this.modifier) {
+      this.active = true;
+      this.schedule();
+      return;
+    }
+
+    const target = e.target as HTMLElement | null;
+    // Typing "c" in a field isn't a request to open the editor
+    if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+    this.held.add(e.key.toLowerCase());
+  }
+
+  private handleClick(e: MouseEvent): void {
+    if (!this.reloader || !(e.target instanceof Element)) return;
+
+    const caller = this.held.has('c');
+    const definition = this.held.has('d');
+    if (!caller && !definition) return;
+
+    e.preventDefault();
+    e.stopImmediatePropagation();
+
+    try {
+      if (caller) {
+        this.reloader.openEditorAtCaller(e.target);
+      } else {
+        this.reloader.openEditorAtDef(e.target);
+      }
+    } catch (error) {
+      console.error('Failed to open editor:', error);
+    }
+  }
+
+  private schedule(): void {
+    if (this.frame || !this.events) return;
+    this.frame = this.events.requestAnimationFrame(() => {
+      this.frame = 0;
+      this.highlight();
+    });
+  }
+
+  /**
+   * Outlines the component under the pointer
+   * @private
+   */
+  private highlight(): void {
+    if (!this.pointer || !this.active) return;
+
+    const target = document.elementFromPoint(this.pointer.x, this.pointer.y);
+    const info = target && !target.closest('.component-inspector-label') ? ComponentInspector.describe(target) : null;
+    if (!info) {
+      this.clear();
+      return;
+    }
+
+    if (!this.outline || !this.label) {
+      this.outline = document.createElement('div');
+      this.outline.className = 'component-inspector-outline';
+      this.label = document.createElement('div');
+      this.label.className = 'component-inspector-label';
+    }
+    if (!this.outline.isConnected) document.body.append(this.outline, this.label);
+
+    const rect = info.element.getBoundingClientRect();
+    Object.assign(this.outline.style, {
+      top: `${rect.top}px`,
+      left: `${rect.left}px`,
+      width: `${rect.width}px`,
+      height: `${rect.height}px`
+    });
+
+    this.label.className = `component-inspector-label ${info.kind.replace('_', '-')}`;
+    this.label.textContent = info.location ? `${info.name} ${info.location}` : info.name;
+    this.label.style.top = `${Math.max(0, rect.top - this.label.offsetHeight)}px`;
+    this.label.style.left = `${Math.max(0, rect.left)}px`;
+  }
+
+  private clear(): void {
+    this.outline?.remove();
+    this.label?.remove();
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Module for the LiveSocket connection status badge
+ *
+ * Follows the Phoenix socket's open/close/error callbacks, the long-poll
+ * fallback and the browser's online/offline events. The badge stays hidden
+ * while connected over WebSocket; otherwise it shows the state, the
+ * countdown to the next reconnect attempt and how many events are queued.
+ *
+ * Only the socket's public API is used: the countdown comes from the same
+ * reconnectAfterMs the socket is given, and the fallback is seen through
+ * replaceTransport(), so start() must run before the socket connects.
+ */
+import { OfflineQueue } from './OfflineQueue';
+
+export type ConnectionState = 'connected' | 'long-poll' | 'reconnecting' | 'offline';
+
+export interface ConnectionStatusOptions {
+  queue?: OfflineQueue;
+  showDelay?: number;
+  offlineAfterAttempts?: number;
+  reconnectAfterMs?: (tries: number) => number;
+}
+
+interface PhoenixSocket {
+  isConnected(): boolean;
+  getLongPollTransport(): unknown;
+  replaceTransport(transport: unknown): void;
+  onOpen(callback: () => void): string;
+  onClose(callback: (event: CloseEvent) => void): string;
+  onError(callback: (error: unknown) => void): string;
+  off(refs: string[]): void;
+}
+
+/**
+ * Phoenix's default reconnect schedule; pass it to the socket as well so
+ * the countdown matches
+ */
+export const reconnectAfterMs = (tries: number): number =>
+  [10, 50, 100, 150, 200, 250, 500, 1000, 2000][tries - 1] || 5000;
+
+const LABELS: Record<ConnectionState, string> = {
+  connected: 'CONNECTED',
+  'long-poll': 'LONG-POLL',
+  reconnecting: 'RECONNECTING',
+  offline: 'OFFLINE',
+};
+
+export class ConnectionStatus {
+  private readonly liveSocket: { getSocket(): any; isUnloaded(): boolean };
+  private readonly options: Required<Omit<ConnectionStatusOptions, 'queue'>> & Pick<ConnectionStatusOptions, 'queue'>;
+  private socket: PhoenixSocket | null = null;
+  private socketRefs: string[] = [];
+  private restoreTransport: (() => void) | null = null;
+  private longPoll = typeof WebSocket === 'undefined';
+  private state: ConnectionState = 'connected';
+  private badge: HTMLElement | null = null;
+  private failedAttempts = 0;
+  private retryAt: number | null = null;
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+  private showTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeQueue: (() => void) | null = null;
+  private listeners: Set<(state: ConnectionState) => void>;
+
+  private readonly handleOnline = () => this.update();
+  private readonly handleOffline = () => this.update();
+
+  constructor(
+    liveSocket: { getSocket(): any; isUnloaded(): boolean },
+    options: ConnectionStatusOptions = {}
+  ) {
+    this.liveSocket = liveSocket;
+    this.options = {
+      showDelay: 1000,
+      offlineAfterAttempts: 5,
+      reconnectAfterMs,
+      ...options
+    };
+    this.listeners = new Set();
+  }
+
+  start(): void {
+    const socket = this.liveSocket.getSocket() as PhoenixSocket | null;
+    if (!socket || this.socket) return;
+    this.socket = socket;
+
+    // The long-poll fallback swaps the transport through replaceTransport()
+    const replaceTransport = socket.replaceTransport;
+    socket.replaceTransport = (transport: unknown) => {
+      this.longPoll = transport === socket.getLongPollTransport();
+      replaceTransport.call(socket, transport);
+    };
+    this.restoreTransport = () => {
+      socket.replaceTransport = replaceTransport;
+    };
+
+    this.socketRefs = [
+      socket.onOpen(() => {
+        this.failedAttempts = 0;
+        this.retryAt = null;
+        this.update();
+        this.options.queue?.flush();
+      }),
+      socket.onClose(() => this.handleDisconnect()),
+      socket.onError(() => this.update()),
+    ];
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.unsubscribeQueue = this.options.queue?.onChange(() => this.render()) ?? null;
+  }
+
+  stop(): void {
+    this.socket?.off(this.socketRefs);
+    this.restoreTransport?.();
+    this.restoreTransport = null;
+    this.socket = null;
+    this.socketRefs = [];
+
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.unsubscribeQueue?.();
+    this.unsubscribeQueue = null;
+
+    this.stopCountdown();
+    if (this.showTimer) clearTimeout(this.showTimer);
+    this.showTimer = null;
+    this.badge?.remove();
+    this.badge = null;
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Subscribes to state changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: (state: ConnectionState) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * Records a failed or dropped connection and when Phoenix will retry
+   * @private
+   */
+  private handleDisconnect(): void {
+    // Navigating away closes the socket too; that isn't worth a badge
+    if (this.liveSocket.isUnloaded()) return;
+
+    this.failedAttempts++;
+
+    // Phoenix waits reconnectAfterMs(n) after the nth failure in a row
+    this.retryAt = Date.now() + this.options.reconnectAfterMs(this.failedAttempts);
+
+    this.update();
+  }
+
+  /**
+   * Derives the state from the socket and the browser
+   * @private
+   */
+  private update(): void {
+    let next: ConnectionState;
+
+    if (this.socket?.isConnected()) {
+      next = this.longPoll ? 'long-poll' : 'connected';
+    } else if (!navigator.onLine || this.failedAttempts >= this.options.offlineAfterAttempts) {
+      next = 'offline';
+    } else {
+      next = 'reconnecting';
+    }
+
+    if (next === 'connected' || next === 'long-poll') {
+      this.stopCountdown();
+    } else {
+      this.startCountdown();
+    }
+
+    if (next !== this.state) {
+      this.state = next;
+      this.listeners.forEach(callback => {
+        try {
+          callback(next);
+        } catch (error) {
+          console.error('Error in connection status listener:', error);
+        }
+      });
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Shows problems only once they last longer than showDelay, so quick
+   * reconnects don't flash the badge
+   * @private
+   */
+  private schedule(): void {
+    if (this.state === 'connected' || this.state === 'long-poll' || this.badge) {
+      if (this.showTimer) clearTimeout(this.showTimer);
+      this.showTimer = null;
+      this.render(this.state === 'long-poll');
+      return;
+    }
+
+    if (!this.showTimer) {
+      this.showTimer = setTimeout(() => {
+        this.showTimer = null;
+        this.render(true);
+      }, this.options.showDelay);
+    }
+  }
+
+  private startCountdown(): void {
+    if (this.countdownTimer) return;
+    this.countdownTimer = setInterval(() => this.render(), 1000);
+  }
+
+  private stopCountdown(): void {
+    if (this.countdownTimer) clearInterval(this.countdownTimer);
+    this.countdownTimer = null;
+  }
+
+  /**
+   * Updates (or creates) the badge
+   * @private
+   */
+  private render(create = false): void {
+    if (!this.badge) {
+      if (!create || this.state === 'connected' || !document.body) return;
+
+      this.badge = document.createElement('div');
+      this.badge.id = 'connection-status';
+      this.badge.setAttribute('role', 'status');
+      this.badge.setAttribute('aria-live', 'polite');
+      document.body.appendChild(this.badge);
+    }
+
+    this.badge.className = `connection-status ${this.state}`;
+
+    let text = LABELS[this.state];
+    if ((this.state === 'reconnecting' || this.state === 'offline') && this.retryAt !== null) {
+      const seconds = Math.ceil((this.retryAt - Date.now()) / 1000);
+      text += seconds > 0 ? ` · retry in ${seconds}s` : ' · retrying…';
+    }
+
+    const queued = this.options.queue?.size() ?? 0;
+    if (queued > 0) {
+      text += ` · ${queued} queued`;
+    }
+
+    this.badge.textContent = text;
+  }
+}
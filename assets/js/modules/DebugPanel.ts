@@ -0,0 +1,323 @@
+/**
+ * Module for the debug mode diagnostics overlay
+ *
+ * Shown while <html> carries the `debug-mode` class (Shift+D). Reports the
+ * measured character cell, grid misalignments in the main content, LiveSocket
+ * connection state and latency, and which lazy hooks have loaded. The main
+ * content gets the character grid drawn over it, with snap outlines for
+ * misaligned headings, text blocks, tables, code and media.
+ */
+import { AlignmentSummary, CellMetrics, GridEdge } from '../types';
+import { LazyHookStatus } from '../types/hooks';
+import { GridAlignment } from './GridAlignment';
+import { GridAlignmentMonitor } from './GridAlignmentMonitor';
+import { MonospaceGrid } from './MonospaceGrid';
+
+export interface DebugPanelOptions {
+  getHookStatus: () => LazyHookStatus[];
+  onClose?: () => void;
+  containerSelector?: string;
+  // Elements and edges checked against the grid
+  selectors?: string[];
+  edges?: GridEdge[];
+  refreshInterval?: number;
+}
+
+interface SocketStats {
+  state: string;
+  transport: string;
+  latency: number | null;
+  latencySim: number | null;
+}
+
+const PANEL_ID = 'debug-panel';
+
+export class DebugPanel {
+  private readonly options: Required<Omit<DebugPanelOptions, 'onClose'>> & Pick<DebugPanelOptions, 'onClose'>;
+  private panel: HTMLElement | null = null;
+  private body: HTMLPreElement | null = null;
+  private classObserver: MutationObserver | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private stopGridWatch: (() => void) | null = null;
+  private cell: CellMetrics | null = null;
+  private grid: AlignmentSummary | null = null;
+  private monitor: GridAlignmentMonitor | null = null;
+  private monitored: HTMLElement | null = null;
+  private latency: number | null = null;
+  private pageLoadStart: number | null = null;
+  private lastPageLoadMs: number | null = null;
+
+  private readonly handlePageLoadingStart = () => {
+    this.pageLoadStart = performance.now();
+  };
+
+  private readonly handlePageLoadingStop = () => {
+    if (this.pageLoadStart !== null) {
+      this.lastPageLoadMs = Math.round(performance.now() - this.pageLoadStart);
+      this.pageLoadStart = null;
+    }
+    // Patched pages may have moved things off-grid
+    if (this.panel) this.scanGrid();
+  };
+
+  constructor(options: DebugPanelOptions) {
+    this.options = {
+      containerSelector: '#main-content',
+      selectors: [...GridAlignment.CONTENT_SELECTORS],
+      // Right edges of wrapped text end wherever the column does
+      edges: ['top', 'bottom', 'left'],
+      refreshInterval: 1000,
+      ...options
+    };
+  }
+
+  /**
+   * Starts following debug mode on the html element
+   */
+  start(): void {
+    window.addEventListener('phx:page-loading-start', this.handlePageLoadingStart);
+    window.addEventListener('phx:page-loading-stop', this.handlePageLoadingStop);
+
+    // The full Monaspace fonts replace the subset with different metrics
+    this.stopGridWatch = MonospaceGrid.page().on('change', () => {
+      if (this.panel) this.scanGrid();
+    });
+
+    this.classObserver = new MutationObserver(() => this.sync());
+    this.classObserver.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ['class']
+    });
+
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', () => this.sync(), { once: true });
+    } else {
+      this.sync();
+    }
+  }
+
+  /**
+   * Stops observing and removes the panel
+   */
+  stop(): void {
+    this.classObserver?.disconnect();
+    this.classObserver = null;
+    window.removeEventListener('phx:page-loading-start', this.handlePageLoadingStart);
+    window.removeEventListener('phx:page-loading-stop', this.handlePageLoadingStop);
+    this.stopGridWatch?.();
+    this.stopGridWatch = null;
+    this.hide();
+  }
+
+  /**
+   * Shows or hides the panel to match debug mode
+   * @private
+   */
+  private sync(): void {
+    const enabled = document.documentElement.classList.contains('debug-mode');
+    if (enabled && !this.panel) {
+      this.show();
+    } else if (!enabled && this.panel) {
+      this.hide();
+    }
+  }
+
+  private show(): void {
+    if (!document.body) return;
+
+    const panel = document.createElement('aside');
+    panel.id = PANEL_ID;
+    panel.className = 'debug-panel';
+    panel.setAttribute('role', 'region');
+    panel.setAttribute('aria-label', 'Debug diagnostics');
+
+    panel.addEventListener('click', (e: MouseEvent) => {
+      const action = (e.target as HTMLElement).closest<HTMLElement>('[data-debug-action]')?.dataset.debugAction;
+      if (action === 'rescan') this.scanGrid();
+      if (action === 'close') this.options.onClose?.();
+    });
+
+    const body = document.createElement('pre');
+    body.className = 'debug-panel-body';
+
+    const actions = document.createElement('div');
+    actions.className = 'debug-panel-actions';
+    actions.innerHTML =
+      '<button type="button" data-debug-action="rescan">[rescan]</button>' +
+      '<button type="button" data-debug-action="close" aria-label="Turn off debug mode">[close]</button>';
+
+    panel.append(body, actions);
+    document.body.appendChild(panel);
+    this.panel = panel;
+    this.body = body;
+
+    this.scanGrid();
+    this.ping();
+    this.refreshTimer = setInterval(() => {
+      this.ping();
+      this.render();
+    }, this.options.refreshInterval);
+  }
+
+  private hide(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    this.stopMonitor();
+
+    this.panel?.remove();
+    this.panel = null;
+    this.body = null;
+  }
+
+  private getContainer(): HTMLElement | null {
+    return document.querySelector<HTMLElement>(this.options.containerSelector);
+  }
+
+  /**
+   * Checks alignment against the container's grid cell; the monitor keeps
+   * re-checking after patches and resizes while the panel is open
+   * @private
+   */
+  private scanGrid(): void {
+    const container = this.getContainer();
+    this.cell = container ? MonospaceGrid.forElement(container).getMetrics() : null;
+
+    if (!container) {
+      this.stopMonitor();
+      this.render();
+      return;
+    }
+
+    if (this.monitor && this.monitored === container) {
+      this.monitor.scan();
+      return;
+    }
+
+    // Live navigation may have replaced the container
+    this.stopMonitor();
+    this.monitored = container;
+    this.monitor = new GridAlignmentMonitor(container, {
+      selectors: this.options.selectors,
+      edges: this.options.edges,
+      highlight: true,
+      onReport: summary => {
+        this.grid = summary;
+        this.render();
+      }
+    });
+    this.monitor.start();
+  }
+
+  private stopMonitor(): void {
+    this.monitor?.stop();
+    this.monitor = null;
+    this.monitored = null;
+    this.grid = null;
+  }
+
+  /**
+   * Measures a heartbeat round trip on the LiveView socket
+   * @private
+   */
+  private ping(): void {
+    const socket = window.liveSocket?.getSocket();
+    if (!socket || typeof socket.ping !== 'function' || !socket.isConnected()) {
+      this.latency = null;
+      return;
+    }
+
+    socket.ping((latency: number) => {
+      this.latency = latency;
+    });
+  }
+
+  private getSocketStats(): SocketStats | null {
+    const liveSocket = window.liveSocket;
+    if (!liveSocket) return null;
+
+    const socket = liveSocket.getSocket();
+    const transport = socket?.transport?.name === 'LongPoll' ? 'long-poll' : 'websocket';
+
+    return {
+      state: socket ? socket.connectionState() : 'unknown',
+      transport,
+      latency: this.latency,
+      latencySim: liveSocket.getLatencySim()
+    };
+  }
+
+  /**
+   * Redraws the panel contents
+   * @private
+   */
+  private render(): void {
+    if (!this.body) return;
+
+    const lines: string[] = [];
+
+    lines.push('== GRID ==');
+    if (this.cell) {
+      const { glyphs } = this.cell;
+      lines.push(`cell      ${this.cell.width.toFixed(2)} x ${this.cell.height.toFixed(2)}px`);
+      lines.push(`glyphs    box ${glyphs.boxDrawing.toFixed(2)} block ${glyphs.block.toFixed(2)}`);
+      lines.push(`          wide ${glyphs.wide.toFixed(2)} emoji ${glyphs.emoji.toFixed(2)}`);
+      if (this.cell.fallbackFont) lines.push('font      FALLBACK (requested font not in use)');
+      if (this.cell.estimated) lines.push(`font      not measured: ${this.cell.error}`);
+    }
+    if (this.grid) {
+      const aligned = this.grid.checked - this.grid.misaligned;
+      lines.push(`aligned   ${aligned}/${this.grid.checked}${this.grid.truncated ? '+' : ''}`);
+      lines.push(`misalign  ${this.grid.misaligned}`);
+      const edges = Object.entries(this.grid.byEdge).map(([edge, count]) => `${edge} ${count}`);
+      if (edges.length) lines.push(`  edges   ${edges.join(' ')}`);
+      Object.entries(this.grid.byComponent)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 3)
+        .forEach(([component, count]) => lines.push(`  ${String(count).padStart(4)} ${component}`));
+    } else if (this.monitor) {
+      // Container found; the monitor hasn't reported yet
+      lines.push('aligned   checking...');
+    } else {
+      lines.push(`no container (${this.options.containerSelector})`);
+    }
+
+    lines.push('', '== LIVESOCKET ==');
+    const stats = this.getSocketStats();
+    if (stats) {
+      lines.push(`state     ${stats.state}`);
+      lines.push(`transport ${stats.transport}`);
+      lines.push(`latency   ${stats.latency === null ? '--' : `${stats.latency}ms`}`);
+      if (stats.latencySim !== null) {
+        lines.push(`simulated ${stats.latencySim}ms`);
+      }
+    } else {
+      lines.push('not initialized');
+    }
+
+    lines.push('', '== PERFORMANCE ==');
+    lines.push(`nav load  ${this.lastPageLoadMs === null ? '--' : `${this.lastPageLoadMs}ms`}`);
+    lines.push(`dom nodes ${document.getElementsByTagName('*').length}`);
+    const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+    if (memory) {
+      lines.push(`js heap   ${(memory.usedJSHeapSize / 1048576).toFixed(1)}MB`);
+    }
+
+    lines.push('', '== LAZY HOOKS ==');
+    this.options.getHookStatus().forEach(status => {
+      const timing = status.loadTimeMs !== undefined ? ` ${status.loadTimeMs}ms` : '';
+      const failure = status.state === 'failed'
+        ? ` after ${status.attempts ?? 1} tries${status.stale ? ' (stale chunk)' : ''}`
+        : '';
+      lines.push(`${status.name.padEnd(24)} ${status.state}${timing}${failure}`);
+      if (status.prefetchedBy && status.prefetchedAt !== undefined) {
+        const ago = Math.round((Date.now() - status.prefetchedAt) / 1000);
+        lines.push(`  prefetch  ${status.prefetchedBy} ${ago}s ago`);
+      }
+    });
+
+    this.body.textContent = lines.join('\n');
+  }
+}
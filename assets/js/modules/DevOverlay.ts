@@ -0,0 +1,487 @@
+/**
+ * Module for the development overlay panel
+ *
+ * Streams the server logs the Phoenix live reloader forwards once
+ * `enableServerLogs()` is on, with a text and level filter, and toggles
+ * `liveSocket.enableDebug()` and LiveView latency simulation. Given an
+ * EventRecorder, an events tab lists LiveView traffic with round-trip
+ * latency, and can pause recording, replay pushes and export the session.
+ *
+ * The live reloader writes each server log line to the console as
+ * `console[level]("%c📡 message", style)`; the overlay recognizes those
+ * calls by the prefix and passes everything through unchanged.
+ */
+import { EventManager } from './EventManager';
+import type { EventRecorder, RecordedEvent } from './EventRecorder';
+
+export type ServerLogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export interface ServerLogEntry {
+  at: number;
+  level: ServerLogLevel;
+  message: string;
+}
+
+export interface DevLiveSocket {
+  enableDebug(): void;
+  disableDebug(): void;
+  isDebugEnabled(): boolean;
+  enableLatencySim(upperBoundMs: number): void;
+  disableLatencySim(): void;
+  getLatencySim(): number | null;
+}
+
+export interface ServerLogSource {
+  enableServerLogs(): void;
+  disableServerLogs(): void;
+}
+
+export interface DevOverlayOptions {
+  maxEntries?: number;
+  recorder?: EventRecorder;
+}
+
+type DevOverlayView = 'logs' | 'events';
+
+type ConsoleMethod = 'log' | 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_PREFIX = '%c📡 ';
+const PANEL_ID = 'dev-overlay';
+const LEVELS: ServerLogLevel[] = ['debug', 'info', 'warning', 'error'];
+const PAYLOAD_PREVIEW_LENGTH = 120;
+
+// The reloader logs debug lines with console.log
+const CONSOLE_LEVELS: Record<ConsoleMethod, ServerLogLevel> = {
+  log: 'debug',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+export class DevOverlay {
+  private readonly liveSocket: DevLiveSocket;
+  private readonly maxEntries: number;
+  private readonly recorder: EventRecorder | null;
+  private view: DevOverlayView = 'logs';
+  private entries: ServerLogEntry[] = [];
+  private filter = '';
+  private minLevel: ServerLogLevel = 'debug';
+  private events: EventManager | null = null;
+  private restoreConsole: (() => void) | null = null;
+  private panel: HTMLElement | null = null;
+  private log: HTMLElement | null = null;
+  private eventList: HTMLElement | null = null;
+  private levelSelect: HTMLSelectElement | null = null;
+  private pauseButton: HTMLButtonElement | null = null;
+  private exportButton: HTMLButtonElement | null = null;
+  private renderFrame = 0;
+  private debugButton: HTMLButtonElement | null = null;
+  private latencyInput: HTMLInputElement | null = null;
+  private expanded = true;
+
+  constructor(liveSocket: DevLiveSocket, options: DevOverlayOptions = {}) {
+    this.liveSocket = liveSocket;
+    this.maxEntries = options.maxEntries ?? 500;
+    this.recorder = options.recorder ?? null;
+  }
+
+  /**
+   * Starts capturing server logs; the panel stays hidden until opened
+   */
+  start(): void {
+    if (this.restoreConsole) return;
+    this.restoreConsole = this.captureConsole();
+  }
+
+  stop(): void {
+    this.close();
+    this.restoreConsole?.();
+    this.restoreConsole = null;
+  }
+
+  /**
+   * Turns on server log streaming from the live reloader
+   */
+  attachReloader(reloader: ServerLogSource): void {
+    try {
+      reloader.enableServerLogs();
+    } catch (error) {
+      console.error('Failed to enable server logs:', error);
+    }
+  }
+
+  isOpen(): boolean {
+    return this.panel !== null;
+  }
+
+  toggle(): void {
+    if (this.panel) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open(): void {
+    if (this.panel || !document.body) return;
+
+    const events = new EventManager();
+    this.events = events;
+
+    const panel = document.createElement('aside');
+    panel.id = PANEL_ID;
+    panel.className = 'dev-overlay';
+    panel.setAttribute('role', 'region');
+    panel.setAttribute('aria-label', 'Development tools');
+
+    const header = document.createElement('div');
+    header.className = 'dev-overlay-header';
+
+    const title = document.createElement('span');
+    title.className = 'dev-overlay-title';
+    title.textContent = 'DEV';
+
+    const debugButton = document.createElement('button');
+    debugButton.type = 'button';
+    debugButton.dataset.devAction = 'debug';
+
+    const latencyLabel = document.createElement('label');
+    latencyLabel.textContent = 'latency ';
+    const latencyInput = document.createElement('input');
+    latencyInput.type = 'number';
+    latencyInput.min = '0';
+    latencyInput.step = '50';
+    latencyInput.placeholder = 'off';
+    latencyInput.className = 'dev-overlay-latency';
+    latencyInput.setAttribute('aria-label', 'Simulated latency upper bound in ms');
+    latencyLabel.append(latencyInput, document.createTextNode('ms'));
+
+    const collapse = document.createElement('button');
+    collapse.type = 'button';
+    collapse.dataset.devAction = 'collapse';
+    collapse.textContent = '[_]';
+    collapse.setAttribute('aria-label', 'Collapse development tools');
+
+    const close = document.createElement('button');
+    close.type = 'button';
+    close.dataset.devAction = 'close';
+    close.textContent = '[x]';
+    close.setAttribute('aria-label', 'Close development tools');
+
+    header.append(title);
+    if (this.recorder) {
+      (['logs', 'events'] as DevOverlayView[]).forEach(view => {
+        const tab = document.createElement('button');
+        tab.type = 'button';
+        tab.className = 'dev-overlay-tab';
+        tab.dataset.devAction = 'view';
+        tab.dataset.devView = view;
+        tab.textContent = `[${view}]`;
+        header.appendChild(tab);
+      });
+    }
+    header.append(debugButton, latencyLabel, collapse, close);
+
+    const filters = document.createElement('div');
+    filters.className = 'dev-overlay-filters';
+
+    const filterInput = document.createElement('input');
+    filterInput.type = 'search';
+    filterInput.value = this.filter;
+
+    const levelSelect = document.createElement('select');
+    levelSelect.setAttribute('aria-label', 'Minimum log level');
+    LEVELS.forEach(level => {
+      const option = document.createElement('option');
+      option.value = level;
+      option.textContent = level;
+      option.selected = level === this.minLevel;
+      levelSelect.appendChild(option);
+    });
+
+    const clear = document.createElement('button');
+    clear.type = 'button';
+    clear.dataset.devAction = 'clear';
+    clear.textContent = '[clear]';
+
+    const pauseButton = document.createElement('button');
+    pauseButton.type = 'button';
+    pauseButton.dataset.devAction = 'pause';
+
+    const exportButton = document.createElement('button');
+    exportButton.type = 'button';
+    exportButton.dataset.devAction = 'export';
+    exportButton.textContent = '[export]';
+    exportButton.setAttribute('aria-label', 'Export recorded events as JSON');
+
+    filters.append(filterInput, levelSelect, clear, pauseButton, exportButton);
+
+    const log = document.createElement('ol');
+    log.className = 'dev-overlay-log';
+    log.setAttribute('aria-live', 'off');
+
+    const eventList = document.createElement('ol');
+    eventList.className = 'dev-overlay-log dev-overlay-events';
+    eventList.setAttribute('aria-live', 'off');
+
+    panel.append(header, filters, log, eventList);
+    document.body.appendChild(panel);
+
+    this.panel = panel;
+    this.log = log;
+    this.eventList = eventList;
+    this.levelSelect = levelSelect;
+    this.pauseButton = pauseButton;
+    this.exportButton = exportButton;
+    this.debugButton = debugButton;
+    this.latencyInput = latencyInput;
+
+    events.listen(panel, 'click', e => {
+      const button = (e.target as HTMLElement).closest<HTMLElement>('[data-dev-action]');
+      const action = button?.dataset.devAction;
+      if (action === 'debug') this.toggleDebug();
+      if (action === 'collapse') this.setExpanded(!this.expanded);
+      if (action === 'close') this.close();
+      if (action === 'view') this.setView(button!.dataset.devView as DevOverlayView);
+      if (action === 'pause') this.recorder?.setPaused(!this.recorder.isPaused());
+      if (action === 'export') this.recorder?.download();
+      if (action === 'replay') this.recorder?.replay(Number(button!.dataset.eventId));
+      if (action === 'clear') {
+        if (this.view === 'events') {
+          this.recorder?.clear();
+        } else {
+          this.entries = [];
+          this.renderLog();
+        }
+      }
+    });
+    events.listen(filterInput, 'input', () => {
+      this.filter = filterInput.value.trim().toLowerCase();
+      this.renderLog();
+      this.renderEvents();
+    });
+    events.listen(levelSelect, 'change', () => {
+      this.minLevel = levelSelect.value as ServerLogLevel;
+      this.renderLog();
+    });
+    events.listen(latencyInput, 'change', () => this.setLatency(latencyInput.value));
+
+    // Replies update latency on existing rows, so redraw once per frame
+    if (this.recorder) {
+      events.onCleanup(this.recorder.onChange(() => {
+        if (this.renderFrame || this.view !== 'events') return;
+        this.renderFrame = events.requestAnimationFrame(() => {
+          this.renderFrame = 0;
+          this.renderControls();
+          this.renderEvents();
+        });
+      }));
+    }
+
+    this.setExpanded(this.expanded);
+    this.setView(this.view);
+  }
+
+  close(): void {
+    this.events?.cleanup();
+    this.events = null;
+    this.renderFrame = 0;
+    this.panel?.remove();
+    this.panel = null;
+    this.log = null;
+    this.eventList = null;
+    this.levelSelect = null;
+    this.pauseButton = null;
+    this.exportButton = null;
+    this.debugButton = null;
+    this.latencyInput = null;
+  }
+
+  /**
+   * Server log lines captured so far, oldest first
+   */
+  getEntries(): ServerLogEntry[] {
+    return [...this.entries];
+  }
+
+  private toggleDebug(): void {
+    if (this.liveSocket.isDebugEnabled()) {
+      this.liveSocket.disableDebug();
+    } else {
+      this.liveSocket.enableDebug();
+    }
+    this.renderControls();
+  }
+
+  private setLatency(value: string): void {
+    const ms = parseInt(value, 10);
+    if (Number.isFinite(ms) && ms > 0) {
+      this.liveSocket.enableLatencySim(ms);
+    } else {
+      this.liveSocket.disableLatencySim();
+    }
+    this.renderControls();
+  }
+
+  private setView(view: DevOverlayView): void {
+    this.view = this.recorder ? view : 'logs';
+    this.panel?.querySelectorAll<HTMLElement>('.dev-overlay-tab').forEach(tab => {
+      tab.setAttribute('aria-pressed', String(tab.dataset.devView === this.view));
+    });
+
+    const events = this.view === 'events';
+    if (this.log) this.log.hidden = events;
+    if (this.eventList) this.eventList.hidden = !events;
+    if (this.levelSelect) this.levelSelect.hidden = events;
+
+    const filterInput = this.panel?.querySelector<HTMLInputElement>('.dev-overlay-filters input');
+    if (filterInput) {
+      const label = events ? 'Filter events' : 'Filter server logs';
+      filterInput.placeholder = label.toLowerCase();
+      filterInput.setAttribute('aria-label', label);
+    }
+
+    this.renderControls();
+    this.renderLog();
+    this.renderEvents();
+  }
+
+  private setExpanded(expanded: boolean): void {
+    this.expanded = expanded;
+    this.panel?.classList.toggle('collapsed', !expanded);
+  }
+
+  /**
+   * Wraps console methods to copy live reloader lines into the panel
+   * @private
+   */
+  private captureConsole(): () => void {
+    const originals = new Map<ConsoleMethod, (...args: any[]) => void>();
+
+    (Object.keys(CONSOLE_LEVELS) as ConsoleMethod[]).forEach(method => {
+      const original = console[method];
+      originals.set(method, original);
+
+      console[method] = (...args: any[]) => {
+        if (typeof args[0] === 'string' && args[0].startsWith(LOG_PREFIX)) {
+          this.record(CONSOLE_LEVELS[method], args[0].slice(LOG_PREFIX.length));
+        }
+        original.apply(console, args);
+      };
+    });
+
+    return () => originals.forEach((original, method) => {
+      console[method] = original;
+    });
+  }
+
+  private record(level: ServerLogLevel, message: string): void {
+    const entry: ServerLogEntry = { at: Date.now(), level, message };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      const dropped = this.entries.shift()!;
+      if (this.matches(dropped)) this.log?.firstElementChild?.remove();
+    }
+
+    if (this.log && this.matches(entry)) {
+      const pinned = this.log.scrollTop + this.log.clientHeight >= this.log.scrollHeight - 4;
+      this.log.appendChild(this.renderEntry(entry));
+      // Follow new lines unless the user scrolled up to read
+      if (pinned) this.log.scrollTop = this.log.scrollHeight;
+    }
+  }
+
+  private matches(entry: ServerLogEntry): boolean {
+    if (LEVELS.indexOf(entry.level) < LEVELS.indexOf(this.minLevel)) return false;
+    return !this.filter || entry.message.toLowerCase().includes(this.filter);
+  }
+
+  private renderControls(): void {
+    if (this.debugButton) {
+      this.debugButton.textContent = this.liveSocket.isDebugEnabled() ? '[debug: on]' : '[debug: off]';
+    }
+    if (this.latencyInput && document.activeElement !== this.latencyInput) {
+      const latency = this.liveSocket.getLatencySim();
+      this.latencyInput.value = latency ? String(latency) : '';
+    }
+
+    const events = this.view === 'events';
+    if (this.pauseButton) {
+      this.pauseButton.hidden = !events;
+      this.pauseButton.textContent = this.recorder?.isPaused() ? '[resume]' : '[pause]';
+    }
+    if (this.exportButton) this.exportButton.hidden = !events;
+  }
+
+  private renderLog(): void {
+    if (!this.log) return;
+
+    const fragment = document.createDocumentFragment();
+    this.entries.filter(entry => this.matches(entry)).forEach(entry => {
+      fragment.appendChild(this.renderEntry(entry));
+    });
+    this.log.replaceChildren(fragment);
+    this.log.scrollTop = this.log.scrollHeight;
+  }
+
+  private renderEntry(entry: ServerLogEntry): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = `dev-overlay-entry ${entry.level}`;
+
+    const time = new Date(entry.at).toTimeString().slice(0, 8);
+    item.textContent = `${time} ${entry.level.padEnd(7)} ${entry.message}`;
+    return item;
+  }
+
+  private renderEvents(): void {
+    if (!this.eventList || !this.recorder || this.view !== 'events') return;
+
+    const list = this.eventList;
+    const pinned = list.scrollTop + list.clientHeight >= list.scrollHeight - 4;
+
+    const fragment = document.createDocumentFragment();
+    this.recorder.getEntries().forEach(entry => {
+      const payload = DevOverlay.preview(entry.payload);
+      const text = `${entry.kind} ${entry.event} ${payload}`.toLowerCase();
+      if (this.filter && !text.includes(this.filter)) return;
+      fragment.appendChild(this.renderEvent(entry, payload));
+    });
+    list.replaceChildren(fragment);
+
+    if (pinned) list.scrollTop = list.scrollHeight;
+  }
+
+  private renderEvent(entry: RecordedEvent, payload: string): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = `dev-overlay-entry event-${entry.kind}`;
+    if (entry.status && entry.status !== 'ok') item.classList.add('error');
+
+    const seconds = (entry.at / 1000).toFixed(3).padStart(9);
+    const latency = entry.latencyMs !== undefined ? `+${entry.latencyMs}ms` : '';
+    item.textContent = `${seconds} ${latency.padEnd(8)} ${entry.kind.padEnd(6)} ${entry.event} ${payload}`;
+    item.title = entry.type ? `${entry.type} on ${entry.topic}` : entry.topic ?? '';
+
+    if (entry.kind === 'push' && this.recorder?.canReplay(entry.id)) {
+      const replay = document.createElement('button');
+      replay.type = 'button';
+      replay.dataset.devAction = 'replay';
+      replay.dataset.eventId = String(entry.id);
+      replay.textContent = '[replay]';
+      replay.setAttribute('aria-label', `Replay ${entry.event}`);
+      item.prepend(replay, document.createTextNode(' '));
+    }
+
+    return item;
+  }
+
+  private static preview(payload: unknown): string {
+    let json: string;
+    try {
+      json = JSON.stringify(payload) ?? '';
+    } catch {
+      json = String(payload);
+    }
+    return json.length > PAYLOAD_PREVIEW_LENGTH ? `${json.slice(0, PAYLOAD_PREVIEW_LENGTH)}…` : json;
+  }
+}
@@ -1,15 +1,76 @@
 /**
- * Module for managing grid-related events with proper cleanup
+ * Module for typed client-side events and scoped resource cleanup
+ *
+ * The type parameter maps event names to payload types:
+ *
+ *   const events = new EventManager<{ resize: { width: number }; ready: void }>();
+ *   events.on('resize', ({ width }) => ...);
+ *   events.emit('resize', { width: 80 });
+ *   events.emit('ready');
+ *
+ * An EventManager is also a cleanup scope: listeners on any target, observers,
+ * timers and child scopes registered through it are all released by
+ * cleanup(). Give each hook or widget its own child scope so tearing it down
+ * releases exactly its own resources:
+ *
+ *   const scope = events.createScope();
+ *   scope.listen(document, 'keydown', onKeydown);
+ *   scope.observe(new ResizeObserver(onResize)).observe(el);
+ *   scope.cleanup();
  */
 import { EventCallback } from '../types';
 
-export class EventManager {
-  private listeners: Map<string, Set<EventCallback>>;
-  private windowListeners: Map<string, EventListener>;
+export type EventHandler<T> = (payload: T) => void;
+
+export type WildcardHandler<Events> = (event: keyof Events & string, payload: Events[keyof Events]) => void;
+
+/**
+ * Node-style emitters such as window.ethereum (EIP-1193 providers)
+ */
+export interface EventEmitterLike {
+  on(event: string, handler: (...args: any[]) => void): unknown;
+  removeListener(event: string, handler: (...args: any[]) => void): unknown;
+}
+
+/**
+ * Which font faces a font-load listener cares about
+ */
+export interface FontFilter {
+  family?: string | RegExp;
+  // Single weight ("400"); matches faces whose weight range includes it
+  weight?: string;
+}
+
+export interface LoadedFont {
+  family: string;
+  weight: string;
+  style: string;
+}
+
+// Events without a payload (void) are emitted with no argument
+type EmitArgs<T> = [T] extends [void] ? [payload?: T] : [payload: T];
+
+export class EventManager<Events extends object = Record<string, any>> {
+  private listeners: Map<keyof Events, Set<EventHandler<any>>>;
+  private wildcardListeners: Set<WildcardHandler<Events>>;
+  // once() wrappers, so off() works with the original callback
+  private onceWrappers: WeakMap<EventHandler<any>, EventHandler<any>>;
+  // Window listeners by event, then by handler identity (value: capture flag)
+  private windowListeners: Map<string, Map<EventListener, boolean>>;
   private abortController: AbortController | null = null;
+  // Everything else registered on this scope, released last-in first-out
+  private cleanups: Array<() => void> = [];
+  private timeouts = new Set<number>();
+  private intervals = new Set<number>();
+  private frames = new Set<number>();
+  private children = new Set<EventManager<any>>();
+  private parent: EventManager<any> | null = null;
+  private isDisposed = false;
 
   constructor() {
     this.listeners = new Map();
+    this.wildcardListeners = new Set();
+    this.onceWrappers = new WeakMap();
     this.windowListeners = new Map();
 
     // Create AbortController if supported
@@ -25,12 +86,12 @@ export class EventManager {
    * @param options - Event listener options
    */
   addWindowListener(event: string, handler: EventListener, options?: AddEventListenerOptions): void {
-    try {
-      const key = `${event}:${handler.toString()}`;
+    if (this.isDisposed) return;
 
-      // Remove existing listener if present
-      if (this.windowListeners.has(key)) {
-        this.removeWindowListener(event, this.windowListeners.get(key)!);
+    try {
+      // Re-adding the same handler replaces it (e.g. to change options)
+      if (this.windowListeners.get(event)?.has(handler)) {
+        this.removeWindowListener(event, handler);
       }
 
       const listenerOptions = this.abortController
@@ -38,7 +99,11 @@ export class EventManager {
         : options;
 
       window.addEventListener(event, handler, listenerOptions);
-      this.windowListeners.set(key, handler);
+
+      if (!this.windowListeners.has(event)) {
+        this.windowListeners.set(event, new Map());
+      }
+      this.windowListeners.get(event)!.set(handler, options?.capture === true);
     } catch (error) {
       console.error(`Failed to add window listener for ${event}:`, error);
     }
@@ -51,9 +116,14 @@ export class EventManager {
    */
   removeWindowListener(event: string, handler: EventListener): void {
     try {
-      const key = `${event}:${handler.toString()}`;
-      window.removeEventListener(event, handler);
-      this.windowListeners.delete(key);
+      const handlers = this.windowListeners.get(event);
+      const capture = handlers?.get(handler) ?? false;
+
+      window.removeEventListener(event, handler, { capture });
+      handlers?.delete(handler);
+      if (handlers?.size === 0) {
+        this.windowListeners.delete(event);
+      }
     } catch (error) {
       console.error(`Failed to remove window listener for ${event}:`, error);
     }
@@ -62,23 +132,41 @@ export class EventManager {
   /**
    * Adds a custom event listener
    * @param event - Event name
-   * @param callback - Event callback
+   * @param callback - Receives the emitted payload
+   * @returns Unsubscribe function
    */
-  on(event: string, callback: EventCallback): void {
+  on<K extends keyof Events>(event: K, callback: EventHandler<Events[K]>): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
     this.listeners.get(event)!.add(callback);
+    return () => this.off(event, callback);
+  }
+
+  /**
+   * Adds a custom event listener that is removed after its first call
+   * @param event - Event name
+   * @param callback - Receives the emitted payload
+   * @returns Unsubscribe function
+   */
+  once<K extends keyof Events>(event: K, callback: EventHandler<Events[K]>): () => void {
+    const wrapper: EventHandler<Events[K]> = payload => {
+      this.off(event, callback);
+      callback(payload);
+    };
+    this.onceWrappers.set(callback, wrapper);
+    return this.on(event, wrapper);
   }
 
   /**
    * Removes a custom event listener
    * @param event - Event name
-   * @param callback - Event callback
+   * @param callback - Event callback, as passed to on() or once()
    */
-  off(event: string, callback: EventCallback): void {
+  off<K extends keyof Events>(event: K, callback: EventHandler<Events[K]>): void {
     const callbacks = this.listeners.get(event);
     if (callbacks) {
+      callbacks.delete(this.onceWrappers.get(callback) ?? callback);
       callbacks.delete(callback);
       if (callbacks.size === 0) {
         this.listeners.delete(event);
@@ -86,21 +174,205 @@ export class EventManager {
     }
   }
 
+  /**
+   * Adds a wildcard listener called for every emitted event
+   * @param callback - Receives the event name and payload
+   * @returns Unsubscribe function
+   */
+  onAny(callback: WildcardHandler<Events>): () => void {
+    this.wildcardListeners.add(callback);
+    return () => this.offAny(callback);
+  }
+
+  /**
+   * Removes a wildcard listener
+   * @param callback - Callback passed to onAny()
+   */
+  offAny(callback: WildcardHandler<Events>): void {
+    this.wildcardListeners.delete(callback);
+  }
+
   /**
    * Emits a custom event
    * @param event - Event name
+   * @param payload - Event payload, omitted for void events
    */
-  emit(event: string): void {
-    const callbacks = this.listeners.get(event);
-    if (callbacks) {
-      callbacks.forEach(callback => {
-        try {
-          callback();
-        } catch (error) {
-          console.error(`Error in event listener for ${event}:`, error);
-        }
-      });
+  emit<K extends keyof Events & string>(event: K, ...[payload]: EmitArgs<Events[K]>): void {
+    // Copy first: once() listeners remove themselves while we iterate
+    const callbacks = Array.from(this.listeners.get(event) ?? []);
+    callbacks.forEach(callback => {
+      try {
+        callback(payload);
+      } catch (error) {
+        console.error(`Error in event listener for ${event}:`, error);
+      }
+    });
+
+    Array.from(this.wildcardListeners).forEach(callback => {
+      try {
+        callback(event, payload as Events[K]);
+      } catch (error) {
+        console.error(`Error in wildcard listener for ${event}:`, error);
+      }
+    });
+  }
+
+  /**
+   * True once cleanup() has run; registering on a disposed scope is a no-op
+   */
+  get disposed(): boolean {
+    return this.isDisposed;
+  }
+
+  /**
+   * Creates a child scope that is cleaned up along with this one
+   */
+  createScope<ChildEvents extends object = Events>(): EventManager<ChildEvents> {
+    const child = new EventManager<ChildEvents>();
+    if (this.isDisposed) {
+      child.cleanup();
+      return child;
+    }
+
+    child.parent = this;
+    this.children.add(child);
+    return child;
+  }
+
+  /**
+   * Adds a listener to any event target or emitter until cleanup
+   * @returns Function that removes the listener early
+   */
+  listen<K extends keyof WindowEventMap>(
+    target: Window,
+    event: K,
+    handler: (e: WindowEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): () => void;
+  listen<K extends keyof DocumentEventMap>(
+    target: Document,
+    event: K,
+    handler: (e: DocumentEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): () => void;
+  listen<K extends keyof HTMLElementEventMap>(
+    target: HTMLElement,
+    event: K,
+    handler: (e: HTMLElementEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): () => void;
+  listen(target: EventTarget, event: string, handler: EventListener, options?: AddEventListenerOptions): () => void;
+  listen(target: EventEmitterLike, event: string, handler: (...args: any[]) => void): () => void;
+  listen(
+    target: EventTarget | EventEmitterLike,
+    event: string,
+    handler: (...args: any[]) => void,
+    options?: AddEventListenerOptions
+  ): () => void {
+    if (this.isDisposed) return () => {};
+
+    if (!('addEventListener' in target)) {
+      target.on(event, handler);
+      return this.track(() => target.removeListener(event, handler));
+    }
+
+    if (target === window) {
+      this.addWindowListener(event, handler, options);
+      return () => this.removeWindowListener(event, handler);
+    }
+
+    const listenerOptions = this.abortController
+      ? { ...options, signal: this.abortController.signal }
+      : options;
+
+    target.addEventListener(event, handler, listenerOptions);
+    return this.track(() => target.removeEventListener(event, handler, options));
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    if (this.isDisposed) return 0;
+
+    const id = window.setTimeout(() => {
+      this.timeouts.delete(id);
+      callback();
+    }, ms);
+    this.timeouts.add(id);
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    window.clearTimeout(id);
+    this.timeouts.delete(id);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    if (this.isDisposed) return 0;
+
+    const id = window.setInterval(callback, ms);
+    this.intervals.add(id);
+    return id;
+  }
+
+  clearInterval(id: number): void {
+    window.clearInterval(id);
+    this.intervals.delete(id);
+  }
+
+  requestAnimationFrame(callback: FrameRequestCallback): number {
+    if (this.isDisposed) return 0;
+
+    const id = window.requestAnimationFrame(time => {
+      this.frames.delete(id);
+      callback(time);
+    });
+    this.frames.add(id);
+    return id;
+  }
+
+  cancelAnimationFrame(id: number): void {
+    window.cancelAnimationFrame(id);
+    this.frames.delete(id);
+  }
+
+  /**
+   * Disconnects a Mutation/Resize/IntersectionObserver on cleanup
+   */
+  observe<T extends { disconnect(): void }>(observer: T): T {
+    if (this.isDisposed) {
+      observer.disconnect();
+      return observer;
+    }
+
+    this.cleanups.push(() => observer.disconnect());
+    return observer;
+  }
+
+  /**
+   * Runs a callback on cleanup; runs it immediately if already disposed
+   */
+  onCleanup(callback: () => void): void {
+    if (this.isDisposed) {
+      callback();
+      return;
     }
+    this.cleanups.push(callback);
+  }
+
+  /**
+   * Registers a cleanup that can also run early, exactly once
+   * @private
+   */
+  private track(release: () => void): () => void {
+    let released = false;
+    const once = () => {
+      if (released) return;
+      released = true;
+      this.cleanups = this.cleanups.filter(cleanup => cleanup !== once);
+      release();
+    };
+
+    this.cleanups.push(once);
+    return once;
   }
 
   /**
@@ -108,33 +380,121 @@ export class EventManager {
    * @param callback - Callback when fonts are ready
    */
   monitorFontLoad(callback: EventCallback): void {
+    if (this.isDisposed) return;
+
+    const run = () => {
+      if (this.isDisposed) return;
+      try {
+        callback();
+      } catch (error) {
+        console.error('Error in font load callback:', error);
+      }
+    };
+
     if (!document.fonts) {
-      // Fallback for browsers without Font Loading API
-      setTimeout(callback, 100);
+      // Without the Font Loading API, fonts are in once the page has loaded
+      if (document.readyState === 'complete') {
+        this.setTimeout(run, 0);
+      } else {
+        this.listen(window, 'load', run, { once: true });
+      }
       return;
     }
 
     document.fonts.ready
-      .then(() => {
-        try {
-          callback();
-        } catch (error) {
-          console.error('Error in font load callback:', error);
-        }
-      })
+      .then(run)
       .catch(error => {
         console.error('Font loading failed:', error);
         // Still call the callback to ensure grid initialization
-        callback();
+        run();
       });
   }
 
   /**
-   * Cleans up all event listeners
+   * Calls back whenever matching font faces finish loading, e.g. when a
+   * subset font is swapped for the full one later on
+   * @param filter - Family (name or pattern) and weight to watch
+   * @param callback - Receives the matching faces that just loaded
+   * @returns Function that stops watching
+   */
+  onFontLoad(filter: FontFilter, callback: (fonts: LoadedFont[]) => void): () => void {
+    if (!document.fonts || this.isDisposed) return () => {};
+
+    return this.listen(document.fonts, 'loadingdone', (e: Event) => {
+      const fonts = Array.from((e as FontFaceSetLoadEvent).fontfaces)
+        .map(face => ({ family: face.family.replace(/^["']|["']$/g, ''), weight: face.weight, style: face.style }))
+        .filter(font => EventManager.matchesFont(font, filter));
+      if (fonts.length === 0) return;
+
+      try {
+        callback(fonts);
+      } catch (error) {
+        console.error('Error in font load callback:', error);
+      }
+    });
+  }
+
+  /**
+   * True when text in the family and weight can render without waiting.
+   * Note this is also true when no @font-face matches at all
+   */
+  static isFontLoaded(family: string, weight = '400', size = '16px'): boolean {
+    if (!document.fonts) return true;
+
+    try {
+      return document.fonts.check(`${weight} ${size} "${family}"`);
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  /**
+   * Matches a face against a filter; variable fonts declare weight ranges
+   * @private
+   */
+  private static matchesFont(font: LoadedFont, filter: FontFilter): boolean {
+    if (filter.family instanceof RegExp && !filter.family.test(font.family)) return false;
+    if (typeof filter.family === 'string' && filter.family !== font.family) return false;
+    if (!filter.weight) return true;
+
+    const wanted = parseFloat(filter.weight);
+    const [min, max = min] = font.weight.split(/\s+/).map(part => parseFloat(part));
+    if (Number.isNaN(min)) return font.weight === filter.weight;
+    return wanted >= min && wanted <= max;
+  }
+
+  /**
+   * Cleans up child scopes, timers, observers and all event listeners
    */
   cleanup(): void {
+    if (this.isDisposed) return;
+    this.isDisposed = true;
+
+    this.children.forEach(child => child.cleanup());
+    this.children.clear();
+    this.parent?.children.delete(this);
+    this.parent = null;
+
+    this.timeouts.forEach(id => window.clearTimeout(id));
+    this.intervals.forEach(id => window.clearInterval(id));
+    this.frames.forEach(id => window.cancelAnimationFrame(id));
+    this.timeouts.clear();
+    this.intervals.clear();
+    this.frames.clear();
+
+    const cleanups = this.cleanups.reverse();
+    this.cleanups = [];
+    cleanups.forEach(cleanup => {
+      try {
+        cleanup();
+      } catch (error) {
+        console.error('Error during cleanup:', error);
+      }
+    });
+
     // Clear custom event listeners
     this.listeners.clear();
+    this.wildcardListeners.clear();
 
     // Remove all window event listeners
     if (this.abortController) {
@@ -142,13 +502,13 @@ export class EventManager {
       this.abortController = null;
     } else {
       // Manual cleanup if AbortController is not supported
-      this.windowListeners.forEach((handler, key) => {
-        const [event] = key.split(':');
-        window.removeEventListener(event, handler);
+      this.windowListeners.forEach((handlers, event) => {
+        handlers.forEach((capture, handler) => {
+          window.removeEventListener(event, handler, { capture });
+        });
       });
     }
 
     this.windowListeners.clear();
-    console.log('Event listeners cleaned up');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,274 @@
+/**
+ * Module for recording LiveView traffic in the browser (development)
+ *
+ * Records at the Phoenix socket so every event is seen, whatever sent it:
+ * - push:   client → server events (hook pushEvent, phx-click, forms, …),
+ *           with round-trip latency once the server replies
+ * - server: push_event payloads from the server (what handleEvent receives)
+ * - window: phx:* CustomEvents LiveView dispatches on window
+ *
+ * Recording can be paused; push entries can be replayed on their channel,
+ * and a session exports as JSON for bug reports. Latency measured here is
+ * socket to socket, so it excludes LiveView's simulated client latency.
+ */
+
+export type RecordedKind = 'push' | 'server' | 'window';
+
+export interface RecordedEvent {
+  id: number;
+  kind: RecordedKind;
+  // Milliseconds since the page started
+  at: number;
+  event: string;
+  payload: unknown;
+  topic?: string;
+  // LiveView event type for pushes (hook, click, submit, …)
+  type?: string;
+  latencyMs?: number;
+  status?: string;
+}
+
+export interface EventRecorderOptions {
+  maxEntries?: number;
+}
+
+interface SocketMessage {
+  topic: string;
+  event: string;
+  payload: any;
+  ref: string | null;
+}
+
+interface PhoenixChannel {
+  topic: string;
+  state: string;
+  push(event: string, payload: object): unknown;
+}
+
+interface PhoenixSocket {
+  channels: PhoenixChannel[];
+  push(data: SocketMessage): void;
+  onMessage(callback: (message: SocketMessage) => void): string;
+  off(refs: string[]): void;
+}
+
+interface PendingPush {
+  entry: RecordedEvent;
+  sentAt: number;
+}
+
+// Socket traffic that isn't a LiveView event
+const IGNORED_EVENTS = new Set(['heartbeat', 'phx_leave', 'phx_close']);
+
+export class EventRecorder {
+  private readonly liveSocket: { getSocket(): any; getLatencySim(): number | null };
+  private readonly maxEntries: number;
+  private socket: PhoenixSocket | null = null;
+  private messageRef: string | null = null;
+  private restore: Array<() => void> = [];
+  private entries: RecordedEvent[] = [];
+  // Raw socket messages for replaying pushes, by entry id
+  private wire = new Map<number, { topic: string; event: string; payload: object }>();
+  private pending = new Map<string, PendingPush>();
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+  private paused = false;
+  private startedAt = Date.now();
+
+  constructor(liveSocket: { getSocket(): any; getLatencySim(): number | null }, options: EventRecorderOptions = {}) {
+    this.liveSocket = liveSocket;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  start(): void {
+    const socket = this.liveSocket.getSocket() as PhoenixSocket | null;
+    if (!socket || this.socket) return;
+    this.socket = socket;
+    this.startedAt = Date.now();
+
+    const push = socket.push;
+    socket.push = (data: SocketMessage) => {
+      this.recordPush(data);
+      push.call(socket, data);
+    };
+    this.restore.push(() => {
+      socket.push = push;
+    });
+
+    this.messageRef = socket.onMessage(message => this.recordMessage(message));
+
+    // LiveView dispatches phx:* events (push_event, page loading) on window
+    const dispatchEvent = window.dispatchEvent;
+    window.dispatchEvent = (event: Event) => {
+      if (event.type.startsWith('phx:')) {
+        this.add({ kind: 'window', event: event.type, payload: (event as CustomEvent).detail ?? null });
+      }
+      return dispatchEvent.call(window, event);
+    };
+    this.restore.push(() => {
+      window.dispatchEvent = dispatchEvent;
+    });
+  }
+
+  stop(): void {
+    if (this.socket && this.messageRef) this.socket.off([this.messageRef]);
+    this.restore.forEach(restore => restore());
+    this.restore = [];
+    this.socket = null;
+    this.messageRef = null;
+    this.pending.clear();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.notify();
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.wire.clear();
+    this.pending.clear();
+    this.notify();
+  }
+
+  getEntries(): RecordedEvent[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Subscribes to recorded entries and state changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: () => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * True when a recorded push can still be sent on its channel
+   */
+  canReplay(id: number): boolean {
+    const wire = this.wire.get(id);
+    return !!wire && !!this.findChannel(wire.topic);
+  }
+
+  /**
+   * Sends a recorded push again, exactly as it went out the first time
+   */
+  replay(id: number): boolean {
+    const wire = this.wire.get(id);
+    const channel = wire && this.findChannel(wire.topic);
+    if (!wire || !channel) return false;
+
+    channel.push(wire.event, wire.payload);
+    return true;
+  }
+
+  /**
+   * Serializes the session for a bug report
+   */
+  export(): string {
+    return JSON.stringify({
+      version: 1,
+      url: window.location.href,
+      userAgent: navigator.userAgent,
+      startedAt: new Date(this.startedAt).toISOString(),
+      exportedAt: new Date().toISOString(),
+      latencySimMs: this.liveSocket.getLatencySim(),
+      entries: this.entries
+    }, null, 2);
+  }
+
+  /**
+   * Downloads export() as a JSON file
+   */
+  download(): void {
+    const blob = new Blob([this.export()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `liveview-events-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  private recordPush(data: SocketMessage): void {
+    if (!data.topic.startsWith('lv:') || IGNORED_EVENTS.has(data.event)) return;
+
+    const isEvent = data.event === 'event';
+    const entry = this.add({
+      kind: 'push',
+      topic: data.topic,
+      event: isEvent ? data.payload?.event : data.event,
+      type: isEvent ? data.payload?.type : undefined,
+      payload: isEvent ? data.payload?.value : data.payload
+    });
+    if (!entry) return;
+
+    this.wire.set(entry.id, { topic: data.topic, event: data.event, payload: data.payload });
+    if (data.ref) this.pending.set(data.ref, { entry, sentAt: performance.now() });
+  }
+
+  /**
+   * Completes pushes with their reply and records server push_events
+   * @private
+   */
+  private recordMessage(message: SocketMessage): void {
+    if (!message.topic.startsWith('lv:')) return;
+
+    let diff: any = null;
+    if (message.event === 'phx_reply') {
+      const pending = message.ref ? this.pending.get(message.ref) : undefined;
+      if (pending) {
+        this.pending.delete(message.ref!);
+        pending.entry.latencyMs = Math.round(performance.now() - pending.sentAt);
+        pending.entry.status = message.payload?.status;
+        this.notify();
+      }
+      diff = message.payload?.response?.diff;
+    } else if (message.event === 'diff') {
+      diff = message.payload;
+    }
+
+    // Rendered diffs carry push_event calls as [[event, payload], …]
+    const events: unknown = diff?.e;
+    if (Array.isArray(events)) {
+      events.forEach(([event, payload]: [string, unknown]) => {
+        this.add({ kind: 'server', topic: message.topic, event, payload });
+      });
+    }
+  }
+
+  private add(fields: Omit<RecordedEvent, 'id' | 'at'>): RecordedEvent | null {
+    if (this.paused) return null;
+
+    const entry: RecordedEvent = { id: this.nextId++, at: Math.round(performance.now()), ...fields };
+    this.entries.push(entry);
+
+    if (this.entries.length > this.maxEntries) {
+      const dropped = this.entries.shift()!;
+      this.wire.delete(dropped.id);
+    }
+
+    this.notify();
+    return entry;
+  }
+
+  private findChannel(topic: string): PhoenixChannel | undefined {
+    return this.socket?.channels.find(channel => channel.topic === topic && channel.state === 'joined');
+  }
+
+  private notify(): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('Error in event recorder listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Module for progressive font loading
+ *
+ * Loads the faces in a declarative manifest by priority tier:
+ * - critical: immediately, before first paint settles
+ * - high:     once the browser is idle after the critical tier
+ * - low:      when idle, and only if the connection allows it
+ *
+ * Save-Data and `prefers-reduced-data` (and cellular connections) drop the
+ * low tier; 2G connections keep only the critical tier. Every face gets a
+ * promise that settles with its timing, and `fonts:stable` fires once all
+ * tiers are done, after which glyph metrics won't change again.
+ */
+import { EventManager } from './EventManager';
+
+export type FontPriority = 'critical' | 'high' | 'low';
+
+export type FontDataMode = 'full' | 'reduced' | 'minimal';
+
+export interface FontManifestEntry {
+  family: string;
+  url: string;
+  weight?: string;
+  style?: string;
+  priority: FontPriority;
+}
+
+export type FontLoadStatus = 'loaded' | 'failed' | 'skipped';
+
+export interface FontTiming {
+  family: string;
+  weight: string;
+  style: string;
+  priority: FontPriority;
+  status: FontLoadStatus;
+  // Milliseconds since navigation start when loading began
+  startedAt?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface FontLoaderEvents {
+  'font:loaded': FontTiming;
+  'font:failed': FontTiming;
+  'fonts:stable': FontTiming[];
+}
+
+export interface FontLoaderOptions {
+  manifest: FontManifestEntry[];
+  idleTimeout?: number;
+}
+
+interface FontRequest {
+  entry: Required<FontManifestEntry>;
+  promise: Promise<FontTiming>;
+  resolve: (timing: FontTiming) => void;
+  timing: FontTiming | null;
+}
+
+// Tiers each data mode loads
+const TIERS: Record<FontDataMode, FontPriority[]> = {
+  full: ['critical', 'high', 'low'],
+  reduced: ['critical', 'high'],
+  minimal: ['critical'],
+};
+
+const SESSION_KEY = 'fonts-loaded';
+
+export class FontLoader {
+  readonly events: EventManager<FontLoaderEvents>;
+  private readonly options: Required<FontLoaderOptions>;
+  private readonly requests: Map<string, FontRequest>;
+  private stable: Promise<FontTiming[]> | null = null;
+
+  constructor(options: FontLoaderOptions) {
+    this.options = {
+      idleTimeout: 3000,
+      ...options
+    };
+    this.events = new EventManager();
+    this.requests = new Map();
+
+    this.options.manifest.forEach(font => {
+      const entry = { weight: '400', style: 'normal', ...font };
+      let resolve!: (timing: FontTiming) => void;
+      const promise = new Promise<FontTiming>(done => {
+        resolve = done;
+      });
+      this.requests.set(FontLoader.key(entry.family, entry.weight, entry.style), {
+        entry,
+        promise,
+        resolve,
+        timing: null
+      });
+    });
+  }
+
+  /**
+   * Loads every tier the connection allows
+   * @returns Timings for all manifest fonts once loading has settled
+   */
+  init(): Promise<FontTiming[]> {
+    if (!this.stable) {
+      this.markLoading();
+      this.stable = this.run();
+    }
+    return this.stable;
+  }
+
+  /**
+   * Promise for one manifest face; settles with its timing (never rejects)
+   */
+  font(family: string, weight = '400', style = 'normal'): Promise<FontTiming> | undefined {
+    return this.requests.get(FontLoader.key(family, weight, style))?.promise;
+  }
+
+  /**
+   * Resolves once all tiers have loaded, failed or been skipped
+   */
+  whenStable(): Promise<FontTiming[]> {
+    return this.init();
+  }
+
+  /**
+   * Timings of the faces that have settled so far
+   */
+  getTimings(): FontTiming[] {
+    return Array.from(this.requests.values())
+      .map(request => request.timing)
+      .filter((timing): timing is FontTiming => timing !== null);
+  }
+
+  /**
+   * Loads tier by tier and emits fonts:stable at the end
+   * @private
+   */
+  private async run(): Promise<FontTiming[]> {
+    const tiers = TIERS[FontLoader.dataMode()];
+
+    await this.loadTier('critical');
+    this.markLoaded();
+
+    for (const priority of ['high', 'low'] as FontPriority[]) {
+      if (!tiers.includes(priority)) {
+        this.skipTier(priority);
+        continue;
+      }
+
+      await this.whenIdle();
+      await this.loadTier(priority);
+    }
+
+    const timings = this.getTimings();
+    this.events.emit('fonts:stable', timings);
+    return timings;
+  }
+
+  private loadTier(priority: FontPriority): Promise<unknown> {
+    const requests = Array.from(this.requests.values()).filter(request => request.entry.priority === priority);
+    return Promise.all(requests.map(request => this.load(request)));
+  }
+
+  private skipTier(priority: FontPriority): void {
+    this.requests.forEach(request => {
+      if (request.entry.priority === priority) {
+        this.settle(request, { ...FontLoader.describe(request.entry), status: 'skipped' });
+      }
+    });
+  }
+
+  /**
+   * Loads one face with the FontFace API, or injects @font-face without it
+   * @private
+   */
+  private async load(request: FontRequest): Promise<void> {
+    const { entry } = request;
+    const description = FontLoader.describe(entry);
+
+    if (!('FontFace' in window) || !document.fonts) {
+      this.injectFontFace(entry);
+      this.settle(request, { ...description, status: 'loaded' });
+      return;
+    }
+
+    const startedAt = performance.now();
+    try {
+      const face = new FontFace(entry.family, `url(${entry.url})`, {
+        weight: entry.weight,
+        style: entry.style,
+        display: 'swap'
+      });
+      await face.load();
+      // FontFaceSet is set-like, but this TypeScript DOM lib omits add()
+      (document.fonts as FontFaceSet & { add(face: FontFace): void }).add(face);
+
+      this.settle(request, {
+        ...description,
+        status: 'loaded',
+        startedAt: Math.round(startedAt),
+        durationMs: Math.round(performance.now() - startedAt)
+      });
+    } catch (error) {
+      console.warn(`Font ${entry.family} ${entry.weight} failed to load`, error);
+      this.settle(request, {
+        ...description,
+        status: 'failed',
+        startedAt: Math.round(startedAt),
+        durationMs: Math.round(performance.now() - startedAt),
+        error: String(error)
+      });
+    }
+  }
+
+  private settle(request: FontRequest, timing: FontTiming): void {
+    if (request.timing) return;
+
+    request.timing = timing;
+    request.resolve(timing);
+
+    if (timing.status === 'failed') {
+      this.events.emit('font:failed', timing);
+    } else if (timing.status !== 'skipped') {
+      this.events.emit('font:loaded', timing);
+    }
+  }
+
+  /**
+   * Inject @font-face rule for older browsers
+   * @private
+   */
+  private injectFontFace(entry: Required<FontManifestEntry>): void {
+    const rule = document.createElement('style');
+    rule.textContent = `
+      @font-face {
+        font-family: '${entry.family}';
+        src: url('${entry.url}') format('woff2');
+        font-weight: ${entry.weight};
+        font-style: ${entry.style};
+        font-display: swap;
+      }
+    `;
+    document.head.appendChild(rule);
+  }
+
+  private whenIdle(): Promise<void> {
+    return new Promise(resolve => {
+      if (typeof window.requestIdleCallback === 'function') {
+        window.requestIdleCallback(() => resolve(), { timeout: this.options.idleTimeout });
+      } else {
+        setTimeout(resolve, 1);
+      }
+    });
+  }
+
+  /**
+   * Marks <html> while critical fonts load; a previous session skips straight
+   * to loaded since the files are cached
+   * @private
+   */
+  private markLoading(): void {
+    let cached = false;
+    try {
+      cached = sessionStorage.getItem(SESSION_KEY) === 'true';
+    } catch (_error) {
+      // Storage unavailable
+    }
+
+    document.documentElement.classList.add(cached ? 'font-loaded' : 'font-loading');
+  }
+
+  private markLoaded(): void {
+    document.documentElement.classList.remove('font-loading');
+    document.documentElement.classList.add('font-loaded');
+
+    try {
+      sessionStorage.setItem(SESSION_KEY, 'true');
+    } catch (_error) {
+      // Ignore storage errors
+    }
+  }
+
+  /**
+   * How much font data the user's settings and connection allow
+   */
+  static dataMode(): FontDataMode {
+    const connection = (navigator as Navigator & {
+      connection?: { saveData?: boolean; effectiveType?: string; type?: string };
+    }).connection;
+
+    if (connection?.effectiveType && ['slow-2g', '2g'].includes(connection.effectiveType)) {
+      return 'minimal';
+    }
+
+    if (connection?.saveData || connection?.type === 'cellular') {
+      return 'reduced';
+    }
+
+    if (window.matchMedia?.('(prefers-reduced-data: reduce)').matches) {
+      return 'reduced';
+    }
+
+    return 'full';
+  }
+
+  private static describe(entry: Required<FontManifestEntry>): Omit<FontTiming, 'status'> {
+    return {
+      family: entry.family,
+      weight: entry.weight,
+      style: entry.style,
+      priority: entry.priority
+    };
+  }
+
+  private static key(family: string, weight: string, style: string): string {
+    return `${family}|${weight}|${style}`;
+  }
+}
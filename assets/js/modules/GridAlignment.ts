@@ -1,43 +1,88 @@
 /**
  * Module for verifying and debugging grid alignment
+ *
+ * Each checked edge of an element's box is measured against the gridlines
+ * of the container's character grid. For off-grid edges the result carries
+ * the signed pixels that would snap the edge onto the nearest gridline.
  */
-import { AlignmentResult, DebugResult } from '../types';
+import { AlignmentResult, DebugResult, EdgeAlignment, GridEdge } from '../types';
+
+const SNAP_ATTRIBUTES: Record<GridEdge, string> = {
+  top: 'data-snap-top',
+  right: 'data-snap-right',
+  bottom: 'data-snap-bottom',
+  left: 'data-snap-left'
+};
 
 export class GridAlignment {
+  /**
+   * Block content that sets the rhythm of posts, the resume and projects
+   */
+  static readonly CONTENT_SELECTORS: readonly string[] = [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'p', 'pre', 'blockquote', 'ul', 'ol', 'table', 'hr',
+    'img', 'video', 'iframe', '.cell'
+  ];
+
+  static readonly EDGES: readonly GridEdge[] = ['top', 'right', 'bottom', 'left'];
+
   private readonly container: HTMLElement;
   private readonly cellWidth: number;
   private readonly cellHeight: number;
   private readonly tolerance: number;
-
-  constructor(container: HTMLElement, cellWidth: number, cellHeight: number, tolerance = 0.5) {
+  private readonly edges: readonly GridEdge[];
+
+  constructor(
+    container: HTMLElement,
+    cellWidth: number,
+    cellHeight: number,
+    tolerance = 0.5,
+    edges: readonly GridEdge[] = ['top', 'left']
+  ) {
     this.container = container;
     this.cellWidth = cellWidth;
     this.cellHeight = cellHeight;
     this.tolerance = tolerance;
+    this.edges = edges;
   }
 
   /**
    * Verifies if an element is grid-aligned
    * @param element - Element to check
-   * @returns Alignment result with details
+   * @param edges - Edges that must sit on a gridline (default: the constructor's)
+   * @returns Alignment result with per-edge offsets and snaps
    */
-  isAligned(element: HTMLElement): AlignmentResult {
+  isAligned(element: HTMLElement, edges: readonly GridEdge[] = this.edges): AlignmentResult {
     try {
       const rect = element.getBoundingClientRect();
       const containerRect = this.container.getBoundingClientRect();
 
-      const relativeTop = rect.top - containerRect.top;
-      const relativeLeft = rect.left - containerRect.left;
+      const positions: Record<GridEdge, number> = {
+        top: rect.top - containerRect.top,
+        bottom: rect.bottom - containerRect.top,
+        left: rect.left - containerRect.left,
+        right: rect.right - containerRect.left
+      };
 
-      const rowOffset = relativeTop % this.cellHeight;
-      const colOffset = relativeLeft % this.cellWidth;
+      const results: Partial<Record<GridEdge, EdgeAlignment>> = {};
+      let rowOffset: number | undefined;
+      let colOffset: number | undefined;
 
-      const isAligned = Math.abs(rowOffset) < this.tolerance && Math.abs(colOffset) < this.tolerance;
+      for (const edge of edges) {
+        const vertical = edge === 'top' || edge === 'bottom';
+        const result = this.checkEdge(positions[edge], vertical ? this.cellHeight : this.cellWidth);
+        results[edge] = result;
+
+        if (result.aligned) continue;
+        if (vertical && rowOffset === undefined) rowOffset = result.offset;
+        if (!vertical && colOffset === undefined) colOffset = result.offset;
+      }
 
       return {
-        isAligned,
-        rowOffset: isAligned ? undefined : rowOffset,
-        colOffset: isAligned ? undefined : colOffset
+        isAligned: rowOffset === undefined && colOffset === undefined,
+        rowOffset,
+        colOffset,
+        edges: results
       };
     } catch (error) {
       console.error('Failed to check alignment:', error);
@@ -46,12 +91,16 @@ export class GridAlignment {
   }
 
   /**
-   * Debug function to verify grid alignment of all cells
+   * Debug function to verify grid alignment of matching elements
    * @param addVisualDebug - Whether to add visual debugging classes
+   * @param selectors - Elements to check (default: `.cell`)
    * @returns Debug result with statistics
    */
-  debugGrid(addVisualDebug = false): DebugResult {
-    const cells = Array.from(this.container.querySelectorAll('.cell')) as HTMLElement[];
+  debugGrid(addVisualDebug = false, selectors: readonly string[] = ['.cell']): DebugResult {
+    // One query so an element matching several selectors counts once
+    const elements = selectors.length
+      ? Array.from(this.container.querySelectorAll<HTMLElement>(selectors.join(',')))
+      : [];
     let misaligned = 0;
     const misalignedCells: HTMLElement[] = [];
 
@@ -59,33 +108,29 @@ export class GridAlignment {
       this.container.classList.add('debug-grid');
     }
 
-    cells.forEach((cell) => {
-      const result = this.isAligned(cell);
+    elements.forEach((element) => {
+      const result = this.isAligned(element);
 
       if (!result.isAligned) {
         misaligned++;
-        misalignedCells.push(cell);
+        misalignedCells.push(element);
 
         if (addVisualDebug) {
-          cell.classList.add('misaligned');
-          cell.setAttribute('data-row-offset', String(result.rowOffset || 0));
-          cell.setAttribute('data-col-offset', String(result.colOffset || 0));
+          GridAlignment.mark(element, result);
         }
       } else if (addVisualDebug) {
-        cell.classList.remove('misaligned');
-        cell.removeAttribute('data-row-offset');
-        cell.removeAttribute('data-col-offset');
+        GridAlignment.unmark(element);
       }
     });
 
     if (misaligned > 0) {
-      console.warn(`${misaligned} of ${cells.length} cells are misaligned!`);
+      console.warn(`${misaligned} of ${elements.length} elements are misaligned!`);
     } else {
-      console.log(`All ${cells.length} cells are properly aligned`);
+      console.log(`All ${elements.length} elements are properly aligned`);
     }
 
     return {
-      aligned: cells.length - misaligned,
+      aligned: elements.length - misaligned,
       misaligned,
       cells: misalignedCells
     };
@@ -97,11 +142,54 @@ export class GridAlignment {
   clearDebug(): void {
     this.container.classList.remove('debug-grid');
 
-    const cells = this.container.querySelectorAll('.cell.misaligned');
-    cells.forEach(cell => {
-      cell.classList.remove('misaligned');
-      cell.removeAttribute('data-row-offset');
-      cell.removeAttribute('data-col-offset');
+    const elements = this.container.querySelectorAll('.misaligned');
+    elements.forEach(element => GridAlignment.unmark(element));
+  }
+
+  /**
+   * Flags an element for the debug-grid styles with its offsets and the
+   * snap of each off-grid edge
+   */
+  static mark(element: Element, result: AlignmentResult): void {
+    element.classList.add('misaligned');
+    element.setAttribute('data-row-offset', String(result.rowOffset ?? 0));
+    element.setAttribute('data-col-offset', String(result.colOffset ?? 0));
+
+    GridAlignment.EDGES.forEach(edge => {
+      const alignment = result.edges?.[edge];
+      if (alignment && !alignment.aligned) {
+        element.setAttribute(SNAP_ATTRIBUTES[edge], alignment.snap.toFixed(2));
+      } else {
+        element.removeAttribute(SNAP_ATTRIBUTES[edge]);
+      }
     });
   }
-}
\ No newline at end of file
+
+  static unmark(element: Element): void {
+    element.classList.remove('misaligned');
+    element.removeAttribute('data-row-offset');
+    element.removeAttribute('data-col-offset');
+    GridAlignment.EDGES.forEach(edge => element.removeAttribute(SNAP_ATTRIBUTES[edge]));
+  }
+
+  /**
+   * Edges of a result that are off the grid
+   */
+  static misalignedEdges(result: AlignmentResult): GridEdge[] {
+    return GridAlignment.EDGES.filter(edge => result.edges?.[edge]?.aligned === false);
+  }
+
+  /**
+   * Measures one edge against the gridlines of its axis
+   * @private
+   */
+  private checkEdge(position: number, size: number): EdgeAlignment {
+    if (!(size > 0)) return { offset: 0, snap: 0, aligned: true };
+
+    // Positive remainder, also for edges above or left of the container
+    const offset = ((position % size) + size) % size;
+    const snap = offset <= size / 2 ? -offset : size - offset;
+
+    return { offset, snap, aligned: Math.abs(snap) < this.tolerance };
+  }
+}
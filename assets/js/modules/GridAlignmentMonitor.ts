@@ -0,0 +1,256 @@
+/**
+ * Module for continuously checking grid alignment
+ *
+ * Re-checks a container after LiveView patches (MutationObserver), size
+ * changes (ResizeObserver) and grid changes (font swaps), and aggregates
+ * misalignments by selector, by off-grid edge and by the component that
+ * rendered them. With `highlight`, misaligned elements are marked and a
+ * GridOverlay draws the grid and where each element would snap to.
+ * Summaries go to `onReport` on every scan and, when given, to `report`
+ * (e.g. a hook's pushEvent) at most once per `reportInterval` and only when
+ * the counts changed, so production regressions reach telemetry.
+ */
+import { AlignmentResult, AlignmentSummary, CellDimensions, GridEdge } from '../types';
+import { ComponentInspector } from './ComponentInspector';
+import { EventManager } from './EventManager';
+import { GridAlignment } from './GridAlignment';
+import { GridOverlay } from './GridOverlay';
+import { MonospaceGrid } from './MonospaceGrid';
+
+export interface GridAlignmentMonitorOptions {
+  selectors?: string[];
+  // Edges that must sit on a gridline
+  edges?: GridEdge[];
+  // Quiet period after the last change before re-checking
+  debounce?: number;
+  // Mark misaligned elements (class and snap attributes) and draw the grid
+  highlight?: boolean;
+  // Stop after this many elements so huge pages stay cheap
+  maxElements?: number;
+  onReport?: (summary: AlignmentSummary) => void;
+  report?: (summary: AlignmentSummary) => void;
+  reportInterval?: number;
+}
+
+export class GridAlignmentMonitor {
+  private readonly container: HTMLElement;
+  private readonly options: Required<Omit<GridAlignmentMonitorOptions, 'onReport' | 'report'>> &
+    Pick<GridAlignmentMonitorOptions, 'onReport' | 'report'>;
+  private events: EventManager | null = null;
+  private mutations: MutationObserver | null = null;
+  private overlay: GridOverlay | null = null;
+  private marked = new Set<HTMLElement>();
+  private summary: AlignmentSummary | null = null;
+  private lastReported: string | null = null;
+  private lastReportAt = 0;
+  private reportTimer = 0;
+  private timer = 0;
+
+  constructor(container: HTMLElement, options: GridAlignmentMonitorOptions = {}) {
+    this.container = container;
+    this.options = {
+      selectors: options.selectors ?? ['.cell'],
+      edges: options.edges ?? ['top', 'left'],
+      debounce: options.debounce ?? 250,
+      highlight: options.highlight ?? false,
+      maxElements: options.maxElements ?? 2000,
+      reportInterval: options.reportInterval ?? 30000,
+      onReport: options.onReport,
+      report: options.report
+    };
+  }
+
+  start(): void {
+    if (this.events) return;
+    const events = new EventManager();
+    this.events = events;
+
+    // Before observing, so adding the overlay isn't taken for a patch
+    if (this.options.highlight) {
+      this.overlay = new GridOverlay(this.container);
+      this.overlay.show();
+    }
+
+    this.mutations = events.observe(new MutationObserver(() => this.schedule()));
+    this.mutations.observe(this.container, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['class', 'style']
+    });
+
+    if (typeof ResizeObserver !== 'undefined') {
+      events.observe(new ResizeObserver(() => this.schedule())).observe(this.container);
+    }
+    events.onCleanup(MonospaceGrid.forElement(this.container).on('change', () => this.schedule()));
+    events.listen(window, 'phx:page-loading-stop', () => this.schedule());
+
+    this.scan();
+  }
+
+  stop(): void {
+    // A report still waiting for the interval is dropped: stop() runs as the
+    // view goes away, when there's no one left to push to
+    this.events?.cleanup();
+    this.events = null;
+    this.mutations = null;
+    this.timer = 0;
+    this.reportTimer = 0;
+    this.clearMarks();
+    this.overlay?.hide();
+    this.overlay = null;
+  }
+
+  getSummary(): AlignmentSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * Checks every matching element now
+   */
+  scan(): AlignmentSummary {
+    const cell = MonospaceGrid.metricsFor(this.container);
+    const alignment = new GridAlignment(this.container, cell.width, cell.height, undefined, this.options.edges);
+    const summary = this.emptySummary(cell);
+    const misaligned = new Map<HTMLElement, AlignmentResult>();
+    const seen = new Set<HTMLElement>();
+
+    for (const selector of this.options.selectors) {
+      const group = summary.bySelector[selector] = { checked: 0, misaligned: 0 };
+      const elements = this.container.querySelectorAll<HTMLElement>(selector);
+
+      for (const element of Array.from(elements)) {
+        if (seen.size >= this.options.maxElements && !seen.has(element)) {
+          summary.truncated = true;
+          break;
+        }
+        seen.add(element);
+        group.checked++;
+
+        const result = alignment.isAligned(element);
+        if (result.isAligned) continue;
+
+        group.misaligned++;
+        if (misaligned.has(element)) continue;
+        misaligned.set(element, result);
+
+        GridAlignment.misalignedEdges(result).forEach(edge => {
+          summary.byEdge[edge] = (summary.byEdge[edge] ?? 0) + 1;
+        });
+
+        const component = this.componentOf(element);
+        summary.byComponent[component] = (summary.byComponent[component] ?? 0) + 1;
+      }
+    }
+
+    summary.checked = seen.size;
+    summary.misaligned = misaligned.size;
+    this.summary = summary;
+
+    if (this.options.highlight) this.mark(misaligned);
+
+    this.options.onReport?.(summary);
+    this.maybeReport();
+    return summary;
+  }
+
+  /**
+   * Stable grouping key: an annotated function component (development
+   * builds), else "page". LiveView and LiveComponent fallbacks are keyed by
+   * per-render ids that would never group across sessions.
+   * @private
+   */
+  private componentOf(element: HTMLElement): string {
+    const info = ComponentInspector.describe(element);
+    return info?.kind === 'function' ? info.name : 'page';
+  }
+
+  private schedule(): void {
+    if (!this.events) return;
+    this.events.clearTimeout(this.timer);
+    this.timer = this.events.setTimeout(() => {
+      this.timer = 0;
+      this.scan();
+    }, this.options.debounce);
+  }
+
+  private emptySummary(cell: CellDimensions): AlignmentSummary {
+    return {
+      path: window.location.pathname,
+      cell: { width: Math.round(cell.width * 100) / 100, height: Math.round(cell.height * 100) / 100 },
+      checked: 0,
+      misaligned: 0,
+      truncated: false,
+      bySelector: {},
+      byComponent: {},
+      byEdge: {}
+    };
+  }
+
+  /**
+   * Hands the summary to `report` when it changed and the interval passed
+   * @private
+   */
+  private maybeReport(): void {
+    if (!this.options.report || !this.summary) return;
+
+    const key = this.reportKey(this.summary);
+    if (key === this.lastReported || this.reportTimer) return;
+    // Nothing wrong on first sight: no report needed
+    if (this.lastReported === null && this.summary.misaligned === 0) {
+      this.lastReported = key;
+      return;
+    }
+
+    const wait = this.lastReportAt + this.options.reportInterval - Date.now();
+    if (wait > 0) {
+      this.reportTimer = this.events?.setTimeout(() => {
+        this.reportTimer = 0;
+        this.maybeReport();
+      }, wait) ?? 0;
+      return;
+    }
+
+    this.send();
+  }
+
+  private send(): void {
+    this.events?.clearTimeout(this.reportTimer);
+    this.reportTimer = 0;
+    if (!this.summary) return;
+    this.lastReported = this.reportKey(this.summary);
+    this.lastReportAt = Date.now();
+    try {
+      this.options.report?.(this.summary);
+    } catch (error) {
+      console.error('Failed to report grid alignment:', error);
+    }
+  }
+
+  private reportKey(summary: AlignmentSummary): string {
+    return JSON.stringify([summary.path, summary.misaligned, summary.bySelector, summary.byComponent, summary.byEdge]);
+  }
+
+  /**
+   * Sets the debug markers on misaligned elements, clearing stale ones
+   * @private
+   */
+  private mark(misaligned: Map<HTMLElement, AlignmentResult>): void {
+    this.marked.forEach(element => {
+      if (!misaligned.has(element)) GridAlignment.unmark(element);
+    });
+    misaligned.forEach((result, element) => GridAlignment.mark(element, result));
+    this.overlay?.drawSnaps(misaligned);
+    this.marked = new Set(misaligned.keys());
+    this.container.classList.add('debug-grid');
+    // Marking isn't a change worth re-checking for
+    this.mutations?.takeRecords();
+  }
+
+  private clearMarks(): void {
+    this.marked.forEach(element => GridAlignment.unmark(element));
+    this.marked.clear();
+    this.overlay?.clearSnaps();
+    this.container.classList.remove('debug-grid');
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Module for drawing the character grid over a container
+ *
+ * The overlay is an absolutely positioned layer inside the container whose
+ * background draws one line per row and column of the container's grid. It
+ * can also outline where misaligned elements would land once snapped, with
+ * the snap of each off-grid edge as a label. Everything it adds is
+ * positioned out of flow, so it doesn't move what it measures.
+ */
+import { AlignmentResult } from '../types';
+import { EventManager } from './EventManager';
+import { GridAlignment } from './GridAlignment';
+import { MonospaceGrid } from './MonospaceGrid';
+
+export class GridOverlay {
+  private readonly container: HTMLElement;
+  private events: EventManager | null = null;
+  private overlay: HTMLElement | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  isShown(): boolean {
+    return this.overlay !== null;
+  }
+
+  show(): void {
+    if (this.overlay) return;
+
+    const overlay = document.createElement('div');
+    overlay.className = 'grid-overlay';
+    overlay.setAttribute('aria-hidden', 'true');
+
+    // The overlay fills the container, which must be its containing block
+    if (window.getComputedStyle(this.container).position === 'static') {
+      this.container.classList.add('grid-overlay-host');
+    }
+    this.container.appendChild(overlay);
+    this.overlay = overlay;
+
+    this.events = new EventManager();
+    this.events.onCleanup(MonospaceGrid.forElement(this.container).on('change', () => this.drawGrid()));
+    this.drawGrid();
+  }
+
+  hide(): void {
+    this.events?.cleanup();
+    this.events = null;
+    this.overlay?.remove();
+    this.overlay = null;
+    this.container.classList.remove('grid-overlay-host');
+  }
+
+  /**
+   * Replaces the snap outlines with those of the given misaligned elements
+   */
+  drawSnaps(misaligned: Map<HTMLElement, AlignmentResult>): void {
+    if (!this.overlay) return;
+
+    const origin = this.origin();
+    const fragment = document.createDocumentFragment();
+
+    misaligned.forEach((result, element) => {
+      const edges = result.edges;
+      if (!edges) return;
+
+      const rect = element.getBoundingClientRect();
+      // Unchecked trailing edges move with the leading one
+      const top = rect.top - origin.top + (edges.top?.snap ?? 0);
+      const left = rect.left - origin.left + (edges.left?.snap ?? 0);
+      const bottom = rect.bottom - origin.top + (edges.bottom?.snap ?? edges.top?.snap ?? 0);
+      const right = rect.right - origin.left + (edges.right?.snap ?? edges.left?.snap ?? 0);
+
+      const ghost = document.createElement('div');
+      ghost.className = 'grid-overlay-snap';
+      ghost.style.top = `${top}px`;
+      ghost.style.left = `${left}px`;
+      ghost.style.width = `${Math.max(0, right - left)}px`;
+      ghost.style.height = `${Math.max(0, bottom - top)}px`;
+      ghost.dataset.snap = GridAlignment.misalignedEdges(result)
+        .map(edge => `${edge} ${this.formatSnap(edges[edge]!.snap)}`)
+        .join(' ');
+
+      fragment.appendChild(ghost);
+    });
+
+    this.clearSnaps();
+    this.overlay.appendChild(fragment);
+  }
+
+  clearSnaps(): void {
+    this.overlay?.querySelectorAll('.grid-overlay-snap').forEach(ghost => ghost.remove());
+  }
+
+  /**
+   * Sizes the background to the cell; lines start at the container's
+   * border edge, where alignment is measured from
+   * @private
+   */
+  private drawGrid(): void {
+    if (!this.overlay) return;
+
+    const { width, height } = MonospaceGrid.metricsFor(this.container);
+    this.overlay.style.backgroundSize = `${width}px ${height}px`;
+    this.overlay.style.backgroundPosition = `${-this.container.clientLeft}px ${-this.container.clientTop}px`;
+  }
+
+  /**
+   * Viewport position of the overlay's top-left corner
+   * @private
+   */
+  private origin(): { top: number; left: number } {
+    const rect = this.container.getBoundingClientRect();
+    return {
+      top: rect.top + this.container.clientTop - this.container.scrollTop,
+      left: rect.left + this.container.clientLeft - this.container.scrollLeft
+    };
+  }
+
+  private formatSnap(snap: number): string {
+    return `${snap > 0 ? '+' : ''}${snap.toFixed(1)}px`;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Module for building LiveView hooks with automatic cleanup
+ *
+ * createHook() wraps a hook definition so every mounted instance gets a
+ * `scope` for listeners, handleEvent callbacks, timers and observers. Each
+ * scope is an EventManager child scope, disposed after the hook's own
+ * destroyed() runs, so hooks no longer need to keep handler bags just to
+ * unbind them.
+ *
+ *   export const ExampleHook = createHook({
+ *     popover: null as HTMLElement | null,   // per-instance field
+ *     mounted() {
+ *       this.scope.listen(window, 'resize', () => this.reposition());
+ *     },
+ *     reposition() { ... },
+ *   });
+ *
+ * LiveView copies definition fields onto each hook instance, so initialize
+ * objects and arrays in mounted() rather than in the definition.
+ */
+import { HandleEventRef, HookInstance, HookLifecycle, HookScope, PhoenixLiveViewHook } from '../types/hooks';
+import { EventEmitterLike, EventManager } from './EventManager';
+
+// Parent of every hook's scope
+const hookEvents = new EventManager();
+
+/**
+ * A hook's EventManager child scope, plus LiveView handleEvent tracking
+ */
+export class HookScopeManager implements HookScope {
+  private readonly hook: PhoenixLiveViewHook;
+  private readonly events: EventManager;
+
+  constructor(hook: PhoenixLiveViewHook) {
+    this.hook = hook;
+    this.events = hookEvents.createScope();
+  }
+
+  get disposed(): boolean {
+    return this.events.disposed;
+  }
+
+  listen(target: EventTarget | EventEmitterLike, event: string, handler: (...args: any[]) => void, options?: AddEventListenerOptions): () => void {
+    return this.events.listen(target as EventTarget, event, handler, options);
+  }
+
+  /**
+   * Registers a LiveView handleEvent callback for the lifetime of the hook
+   */
+  handleEvent<T = any>(event: string, callback: (payload: T) => void): void {
+    if (this.disposed || !this.hook.handleEvent) return;
+
+    const ref: HandleEventRef = this.hook.handleEvent(event, callback);
+    this.events.onCleanup(() => this.hook.removeHandleEvent?.(ref));
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return this.events.setTimeout(callback, ms);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return this.events.setInterval(callback, ms);
+  }
+
+  requestAnimationFrame(callback: FrameRequestCallback): number {
+    return this.events.requestAnimationFrame(callback);
+  }
+
+  observe<T extends { disconnect(): void }>(observer: T): T {
+    return this.events.observe(observer);
+  }
+
+  onCleanup(callback: () => void): void {
+    this.events.onCleanup(callback);
+  }
+
+  /**
+   * Releases everything in reverse order of registration
+   */
+  dispose(): void {
+    this.events.cleanup();
+  }
+}
+
+/**
+ * Wraps a hook definition so each instance gets a scope that is disposed
+ * after destroyed()
+ */
+export function createHook<T extends HookLifecycle>(definition: T & ThisType<HookInstance<T>>): T {
+  const { mounted, destroyed } = definition;
+
+  return {
+    ...definition,
+
+    mounted(this: HookInstance<T>) {
+      this.scope = new HookScopeManager(this);
+      return mounted?.call(this);
+    },
+
+    destroyed(this: HookInstance<T>) {
+      try {
+        destroyed?.call(this);
+      } finally {
+        (this.scope as HookScopeManager | undefined)?.dispose();
+      }
+    },
+  };
+}
@@ -0,0 +1,438 @@
+/**
+ * Module for lazy-loaded LiveView hooks
+ *
+ * createLazyHook() returns a proxy hook that imports the real hook on first
+ * mount. LiveView keeps calling the proxy, so the proxy forwards every
+ * lifecycle callback to the real definition once it is ready. Until then
+ * lifecycle calls, and server pushes for the entry's declared events, are
+ * buffered and replayed in arrival order after the real mounted() finishes
+ * (including async mounted()). Destroying the element while the module is
+ * loading cancels the mount.
+ *
+ * Failed imports are retried with exponential backoff. If they still fail,
+ * the element shows an in-place fallback with a retry button. Elements with
+ * `data-report-load-failure` also push `hook_load_failed` to their LiveView
+ * (handled for the main live_session by DroodotfooWeb.Live.ClientTelemetry);
+ * without it nothing is pushed, as an unhandled event would crash the
+ * LiveView. A chunk that is gone from the server (a deploy since the page
+ * loaded) can't be retried, so the page offers a reload instead.
+ */
+import { HandleEventRef, HookLifecycle, LazyHookStatus, PhoenixLiveViewHook } from '../types/hooks';
+
+export type LazyHookDefinition = HookLifecycle & Record<string, any>;
+
+export interface LazyHookPrefetch {
+  // Load once the browser is idle after page load
+  idle?: boolean;
+  // Load when a matching phx-hook element nears the viewport
+  visible?: boolean;
+  // Load when hovering/focusing a link to one of these paths (plus paths
+  // where the hook has been seen before)
+  hover?: boolean;
+  routes?: string[];
+}
+
+export interface LazyHookEntry {
+  load: () => Promise<LazyHookDefinition>;
+  // Human-readable name for the fallback, e.g. "3D viewer"
+  label?: string;
+  // handleEvent names the real hook subscribes to in mounted(); pushes for
+  // these that arrive while the module is loading are replayed
+  events?: string[];
+  // Heavy libraries the hook imports in mounted(), warmed up by prefetching
+  dependencies?: () => Promise<unknown>;
+  prefetch?: LazyHookPrefetch;
+}
+
+type ForwardedCallback = 'beforeUpdate' | 'updated' | 'disconnected' | 'reconnected';
+type EventCallback = (payload: any) => void;
+
+type BufferedCall =
+  | { kind: 'lifecycle'; name: ForwardedCallback }
+  | { kind: 'event'; event: string; payload: any; callback?: EventCallback };
+
+type ProxyPhase = 'loading' | 'mounting' | 'ready' | 'destroyed' | 'failed';
+
+interface ProxyState {
+  phase: ProxyPhase;
+  buffer: BufferedCall[];
+  definition: LazyHookDefinition | null;
+  // Proxy subscriptions for declared events, dropped once the real hook subscribes
+  pending: Map<string, HandleEventRef>;
+  // Callbacks the real hook registered, for replaying declared events
+  callbacks: Map<string, EventCallback[]>;
+  fallback: HTMLElement | null;
+  // Removes the pending retry-when-back-online listener
+  cancelOnlineRetry: (() => void) | null;
+}
+
+const FORWARDED: ForwardedCallback[] = ['beforeUpdate', 'updated', 'disconnected', 'reconnected'];
+const LIFECYCLE_KEYS = new Set<string>(['mounted', 'destroyed', ...FORWARDED]);
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000;
+
+// Messages browsers use when a dynamic import() can't fetch its module
+const CHUNK_ERROR = /dynamically imported module|Importing a module script failed|Loading chunk/i;
+
+const loads = new Map<LazyHookEntry, Promise<LazyHookDefinition>>();
+let reloadPrompt: HTMLElement | null = null;
+
+/**
+ * Imports a lazy hook once, retrying with backoff, and records timing in
+ * its status entry
+ */
+export function loadLazyHook(entry: LazyHookEntry, status: LazyHookStatus): Promise<LazyHookDefinition> {
+  const existing = loads.get(entry);
+  if (existing) return existing;
+
+  const startedAt = performance.now();
+  status.state = 'loading';
+  status.attempts = 0;
+  status.error = undefined;
+  status.stale = undefined;
+
+  const attempt = (): Promise<LazyHookDefinition> => {
+    const attempts = (status.attempts ?? 0) + 1;
+    status.attempts = attempts;
+
+    return entry.load().catch(error => {
+      // Retrying is pointless offline; the fallback retries once back online
+      if (attempts > MAX_RETRIES || !navigator.onLine) throw error;
+      return wait(RETRY_BASE_DELAY * 2 ** (attempts - 1)).then(attempt);
+    });
+  };
+
+  const promise = attempt().then(
+    definition => {
+      status.state = 'loaded';
+      status.loadedAt = Date.now();
+      status.loadTimeMs = Math.round(performance.now() - startedAt);
+      return definition;
+    },
+    async error => {
+      // Forget the failed import so the next mount tries again
+      loads.delete(entry);
+      status.state = 'failed';
+      status.error = String(error);
+      status.stale = await isStaleChunk(error);
+      throw error;
+    }
+  );
+
+  loads.set(entry, promise);
+  return promise;
+}
+
+/**
+ * Builds the proxy hook LiveView registers in place of the real one
+ */
+export function createLazyHook(name: string, entry: LazyHookEntry, status: LazyHookStatus): HookLifecycle {
+  const states = new WeakMap<PhoenixLiveViewHook, ProxyState>();
+
+  const label = entry.label ?? name;
+
+  const forward = (callback: ForwardedCallback) =>
+    function (this: PhoenixLiveViewHook) {
+      const state = states.get(this);
+      if (!state) return;
+
+      if (state.phase === 'loading' || state.phase === 'mounting') {
+        state.buffer.push({ kind: 'lifecycle', name: callback });
+      } else if (state.phase === 'ready') {
+        state.definition?.[callback]?.call(this);
+      } else if (state.phase === 'failed' && state.fallback && !state.fallback.isConnected) {
+        // A LiveView patch dropped the fallback; put it back
+        this.el.appendChild(state.fallback);
+      }
+    };
+
+  const load = (hook: PhoenixLiveViewHook, state: ProxyState) => {
+    state.phase = 'loading';
+
+    (entry.events ?? []).forEach(event => {
+      const ref = hook.handleEvent?.(event, payload => {
+        state.buffer.push({ kind: 'event', event, payload });
+      });
+      if (ref) state.pending.set(event, ref);
+    });
+
+    loadLazyHook(entry, status)
+      .then(definition => {
+        if (state.phase !== 'loading') return;
+        activate(hook, state, definition);
+      })
+      .catch(error => {
+        if (state.phase !== 'loading') return;
+        state.phase = 'failed';
+        release(hook, state);
+        console.error(`Failed to load ${name}:`, error);
+        showFallback(hook, state);
+        report(hook, error);
+      });
+  };
+
+  const retry = (hook: PhoenixLiveViewHook, state: ProxyState) => {
+    if (state.phase !== 'failed') return;
+    clearFallback(state);
+    load(hook, state);
+  };
+
+  /**
+   * Replaces the dead element's content with a message and a way out
+   */
+  const showFallback = (hook: PhoenixLiveViewHook, state: ProxyState) => {
+    clearFallback(state);
+
+    const fallback = document.createElement('div');
+    fallback.className = 'lazy-hook-fallback';
+    fallback.setAttribute('role', 'alert');
+
+    const message = document.createElement('span');
+    const button = document.createElement('button');
+    button.type = 'button';
+
+    if (status.stale) {
+      message.textContent = `${label} is out of date`;
+      button.textContent = '[reload]';
+      button.addEventListener('click', () => window.location.reload());
+      showReloadPrompt();
+    } else {
+      message.textContent = navigator.onLine
+        ? `${label} failed to load`
+        : `${label} failed to load (offline)`;
+      button.textContent = '[retry]';
+      button.addEventListener('click', () => retry(hook, state));
+
+      if (!navigator.onLine) {
+        const handleOnline = () => retry(hook, state);
+        window.addEventListener('online', handleOnline, { once: true });
+        state.cancelOnlineRetry = () => window.removeEventListener('online', handleOnline);
+      }
+    }
+
+    fallback.append(message, button);
+    hook.el.appendChild(fallback);
+    state.fallback = fallback;
+  };
+
+  /**
+   * Tells the LiveView so the server can log it or render something else
+   */
+  const report = (hook: PhoenixLiveViewHook, error: unknown) => {
+    if (!hook.el.hasAttribute('data-report-load-failure')) return;
+
+    const payload = {
+      hook: name,
+      error: String(error),
+      attempts: status.attempts ?? 1,
+      stale: status.stale === true,
+      online: navigator.onLine,
+    };
+
+    // Reporting is best effort
+    hook.pushEvent?.('hook_load_failed', payload).catch(() => {});
+  };
+
+  const proxy: HookLifecycle = {
+    mounted(this: PhoenixLiveViewHook) {
+      const state: ProxyState = {
+        phase: 'loading',
+        buffer: [],
+        definition: null,
+        pending: new Map(),
+        callbacks: new Map(),
+        fallback: null,
+        cancelOnlineRetry: null,
+      };
+      states.set(this, state);
+      load(this, state);
+    },
+
+    destroyed(this: PhoenixLiveViewHook) {
+      const state = states.get(this);
+      if (!state) return;
+
+      const { phase, definition } = state;
+      state.phase = 'destroyed';
+      release(this, state);
+      clearFallback(state);
+      states.delete(this);
+
+      // A hook whose mounted() already started must get to clean up
+      if (phase === 'mounting' || phase === 'ready') {
+        definition?.destroyed?.call(this);
+      }
+    },
+  };
+
+  FORWARDED.forEach(callback => {
+    proxy[callback] = forward(callback);
+  });
+
+  return proxy;
+}
+
+/**
+ * Installs the real hook on the proxy instance and runs its mounted()
+ * @private
+ */
+function activate(hook: PhoenixLiveViewHook, state: ProxyState, definition: LazyHookDefinition): void {
+  state.definition = definition;
+  state.phase = 'mounting';
+
+  // Fields and helper methods live on the instance; lifecycle stays on the proxy
+  Object.keys(definition).forEach(key => {
+    if (!LIFECYCLE_KEYS.has(key)) {
+      (hook as Record<string, any>)[key] = definition[key];
+    }
+  });
+
+  // Route the real hook's subscriptions through the buffer until it is ready
+  const handleEvent = hook.handleEvent;
+  const ownHandleEvent = Object.prototype.hasOwnProperty.call(hook, 'handleEvent');
+  if (handleEvent) {
+    hook.handleEvent = (event: string, callback: EventCallback) => {
+      const pending = state.pending.get(event);
+      if (pending) {
+        hook.removeHandleEvent?.(pending);
+        state.pending.delete(event);
+      }
+
+      const callbacks = state.callbacks.get(event) ?? [];
+      callbacks.push(callback);
+      state.callbacks.set(event, callbacks);
+
+      return handleEvent.call(hook, event, (payload: any) => {
+        if (state.phase === 'ready') {
+          callback(payload);
+        } else if (state.phase === 'mounting') {
+          state.buffer.push({ kind: 'event', event, payload, callback });
+        }
+      });
+    };
+  }
+
+  let result: void | Promise<void> = undefined;
+  try {
+    result = definition.mounted?.call(hook);
+  } catch (error) {
+    console.error('Error in lazy hook mounted:', error);
+  }
+
+  Promise.resolve(result)
+    .catch(error => console.error('Error in lazy hook mounted:', error))
+    .finally(() => {
+      // Put LiveView's handleEvent back (usually a prototype method)
+      if (ownHandleEvent) {
+        hook.handleEvent = handleEvent;
+      } else {
+        delete (hook as Partial<PhoenixLiveViewHook>).handleEvent;
+      }
+      if (state.phase !== 'mounting') return;
+
+      state.phase = 'ready';
+      state.pending.forEach(ref => hook.removeHandleEvent?.(ref));
+      state.pending.clear();
+      replay(hook, state);
+    });
+}
+
+/**
+ * Replays buffered lifecycle calls and server pushes in arrival order
+ * @private
+ */
+function replay(hook: PhoenixLiveViewHook, state: ProxyState): void {
+  const buffer = state.buffer;
+  state.buffer = [];
+
+  buffer.forEach(call => {
+    if (state.phase !== 'ready') return;
+
+    try {
+      if (call.kind === 'lifecycle') {
+        state.definition?.[call.name]?.call(hook);
+      } else if (call.callback) {
+        call.callback(call.payload);
+      } else {
+        (state.callbacks.get(call.event) ?? []).forEach(callback => callback(call.payload));
+      }
+    } catch (error) {
+      console.error('Error replaying lazy hook call:', error);
+    }
+  });
+}
+
+/**
+ * Drops proxy subscriptions and anything still buffered
+ * @private
+ */
+function release(hook: PhoenixLiveViewHook, state: ProxyState): void {
+  state.pending.forEach(ref => hook.removeHandleEvent?.(ref));
+  state.pending.clear();
+  state.buffer = [];
+}
+
+/**
+ * Removes the fallback and its pending online retry
+ * @private
+ */
+function clearFallback(state: ProxyState): void {
+  state.cancelOnlineRetry?.();
+  state.cancelOnlineRetry = null;
+  state.fallback?.remove();
+  state.fallback = null;
+}
+
+/**
+ * Shows a single page-level prompt to reload onto the new deploy
+ * @private
+ */
+function showReloadPrompt(): void {
+  if (reloadPrompt?.isConnected || !document.body) return;
+
+  reloadPrompt = document.createElement('div');
+  reloadPrompt.className = 'reload-prompt';
+  reloadPrompt.setAttribute('role', 'alert');
+
+  const message = document.createElement('span');
+  message.textContent = 'A new version of this site is available.';
+
+  const reload = document.createElement('button');
+  reload.type = 'button';
+  reload.textContent = '[reload]';
+  reload.addEventListener('click', () => window.location.reload());
+
+  const dismiss = document.createElement('button');
+  dismiss.type = 'button';
+  dismiss.textContent = '[dismiss]';
+  dismiss.addEventListener('click', () => reloadPrompt?.remove());
+
+  reloadPrompt.append(message, reload, dismiss);
+  document.body.appendChild(reloadPrompt);
+}
+
+/**
+ * True when a failed import's chunk is missing from the server, rather
+ * than the network being down
+ * @private
+ */
+async function isStaleChunk(error: unknown): Promise<boolean> {
+  const message = String(error);
+  if (!navigator.onLine || !CHUNK_ERROR.test(message)) return false;
+
+  // Chrome names the module URL, so check it is really gone. Otherwise a
+  // reachable server means the chunk itself is missing
+  const url = message.match(/https?:\/\/\S+?\.js/)?.[0];
+
+  try {
+    const response = await fetch(url ?? window.location.href, { method: 'HEAD', cache: 'no-store' });
+    return url ? response.status === 404 : response.ok;
+  } catch (_error) {
+    return false;
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
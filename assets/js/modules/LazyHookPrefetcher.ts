@@ -0,0 +1,193 @@
+/**
+ * Module for prefetching lazy hooks before they mount
+ *
+ * Each lazy hook entry opts into triggers through its `prefetch` config:
+ * - idle:    once the browser is idle after the page loads
+ * - visible: when an element with the matching phx-hook nears the viewport
+ * - hover:   when the pointer or focus lands on a link to a page that uses
+ *            the hook (configured routes, plus pages where it was seen)
+ *
+ * Prefetching runs the same import as mounting, so a later mount reuses the
+ * loaded module. Nothing is prefetched when the user asked to save data.
+ */
+import { LazyHookPrefetchTrigger, LazyHookStatus } from '../types/hooks';
+import { LazyHookEntry, loadLazyHook } from './LazyHook';
+
+const ROUTES_STORAGE_KEY = 'phx:lazy-hook-routes';
+const MAX_ROUTES_PER_HOOK = 10;
+const VISIBLE_MARGIN = '400px';
+const IDLE_TIMEOUT = 5000;
+
+export class LazyHookPrefetcher {
+  private readonly entries: Record<string, LazyHookEntry>;
+  private readonly statuses: Map<string, LazyHookStatus>;
+  private learnedRoutes: Record<string, string[]>;
+  private observer: IntersectionObserver | null = null;
+  private idleHandle: number | null = null;
+  private started = false;
+
+  private readonly handlePageLoadingStop = () => this.scan();
+
+  private readonly handleLinkIntent = (e: Event) => {
+    const link = (e.target as Element | null)?.closest?.('a[href]');
+    if (link instanceof HTMLAnchorElement) this.prefetchForLink(link);
+  };
+
+  constructor(entries: Record<string, LazyHookEntry>, statuses: Map<string, LazyHookStatus>) {
+    this.entries = entries;
+    this.statuses = statuses;
+    this.learnedRoutes = this.loadRoutes();
+  }
+
+  start(): void {
+    if (this.started || LazyHookPrefetcher.saveData()) return;
+    this.started = true;
+
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver(entries => this.handleIntersections(entries), {
+        rootMargin: VISIBLE_MARGIN
+      });
+    }
+
+    document.addEventListener('pointerover', this.handleLinkIntent, { passive: true });
+    document.addEventListener('focusin', this.handleLinkIntent);
+    window.addEventListener('phx:page-loading-stop', this.handlePageLoadingStop);
+
+    this.scheduleIdle();
+
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', () => this.scan(), { once: true });
+    } else {
+      this.scan();
+    }
+  }
+
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    if (this.idleHandle !== null) {
+      if (typeof window.cancelIdleCallback === 'function') {
+        window.cancelIdleCallback(this.idleHandle);
+      } else {
+        clearTimeout(this.idleHandle);
+      }
+      this.idleHandle = null;
+    }
+
+    document.removeEventListener('pointerover', this.handleLinkIntent);
+    document.removeEventListener('focusin', this.handleLinkIntent);
+    window.removeEventListener('phx:page-loading-stop', this.handlePageLoadingStop);
+    this.started = false;
+  }
+
+  /**
+   * Loads a lazy hook (and its heavy dependencies) ahead of mounting
+   */
+  prefetch(name: string, trigger: LazyHookPrefetchTrigger): void {
+    const entry = this.entries[name];
+    const status = this.statuses.get(name);
+    if (!entry || !status || status.state === 'loading' || status.state === 'loaded') return;
+
+    status.prefetchedBy = trigger;
+    status.prefetchedAt = Date.now();
+
+    loadLazyHook(entry, status).catch(() => {
+      // Reported through the status; mounting will try again
+    });
+    entry.dependencies?.().catch(() => {});
+  }
+
+  /**
+   * Observes matching elements and remembers which page uses which hook
+   * @private
+   */
+  private scan(): void {
+    const path = window.location.pathname;
+
+    Object.entries(this.entries).forEach(([name, entry]) => {
+      const elements = document.querySelectorAll<HTMLElement>(`[phx-hook="${name}"]`);
+      if (elements.length === 0) return;
+
+      this.learnRoute(name, path);
+
+      if (entry.prefetch?.visible && this.observer) {
+        elements.forEach(element => this.observer!.observe(element));
+      }
+    });
+  }
+
+  private handleIntersections(entries: IntersectionObserverEntry[]): void {
+    entries.forEach(entry => {
+      if (!entry.isIntersecting) return;
+
+      this.observer?.unobserve(entry.target);
+      const name = entry.target.getAttribute('phx-hook');
+      if (name) this.prefetch(name, 'visible');
+    });
+  }
+
+  private prefetchForLink(link: HTMLAnchorElement): void {
+    if (link.origin !== window.location.origin || link.pathname === window.location.pathname) return;
+
+    Object.entries(this.entries).forEach(([name, entry]) => {
+      if (!entry.prefetch?.hover) return;
+
+      const routes = [...(entry.prefetch.routes ?? []), ...(this.learnedRoutes[name] ?? [])];
+      if (routes.includes(link.pathname)) this.prefetch(name, 'hover');
+    });
+  }
+
+  private scheduleIdle(): void {
+    const names = Object.keys(this.entries).filter(name => this.entries[name].prefetch?.idle);
+    if (names.length === 0) return;
+
+    const run = () => {
+      this.idleHandle = null;
+      names.forEach(name => this.prefetch(name, 'idle'));
+    };
+
+    // Wait for load so prefetching doesn't compete with the page itself
+    const schedule = () => {
+      if (typeof window.requestIdleCallback === 'function') {
+        this.idleHandle = window.requestIdleCallback(run, { timeout: IDLE_TIMEOUT });
+      } else {
+        this.idleHandle = window.setTimeout(run, 2000);
+      }
+    };
+
+    if (document.readyState === 'complete') {
+      schedule();
+    } else {
+      window.addEventListener('load', schedule, { once: true });
+    }
+  }
+
+  private learnRoute(name: string, path: string): void {
+    const routes = this.learnedRoutes[name] ?? [];
+    if (routes.includes(path)) return;
+
+    this.learnedRoutes[name] = [path, ...routes].slice(0, MAX_ROUTES_PER_HOOK);
+    try {
+      localStorage.setItem(ROUTES_STORAGE_KEY, JSON.stringify(this.learnedRoutes));
+    } catch (_error) {
+      // Prefetch on hover just won't know about this page
+    }
+  }
+
+  private loadRoutes(): Record<string, string[]> {
+    try {
+      const stored = localStorage.getItem(ROUTES_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (_error) {
+      return {};
+    }
+  }
+
+  /**
+   * True when the browser signals Save-Data
+   */
+  static saveData(): boolean {
+    const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+    return connection?.saveData === true;
+  }
+}
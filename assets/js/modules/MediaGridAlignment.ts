@@ -6,6 +6,8 @@
  * to the line-height grid. This module snaps their heights to grid lines
  * to maintain visual rhythm.
  */
+import { CellMeasurement } from './CellMeasurement';
+import { EventManager } from './EventManager';
 
 export interface MediaAlignmentOptions {
   lineHeight: number;
@@ -14,10 +16,12 @@ export interface MediaAlignmentOptions {
 }
 
 export class MediaGridAlignment {
-  private readonly lineHeight: number;
+  private lineHeight: number;
   private readonly selector: string;
   private readonly autoResize: boolean;
   private resizeObserver?: ResizeObserver;
+  private removeResizeListener?: () => void;
+  private fontEvents?: EventManager;
 
   constructor(options: MediaAlignmentOptions) {
     this.lineHeight = options.lineHeight;
@@ -76,13 +80,14 @@ export class MediaGridAlignment {
   }
 
   /**
-   * Sets up automatic realignment on window resize
+   * Sets up automatic realignment on window resize and when a Monaspace
+   * font finishes loading (which can change the line height)
    */
   enableAutoResize(container: HTMLElement): void {
-    if (!this.autoResize) return;
+    if (!this.autoResize || this.removeResizeListener) return;
 
     // Debounced resize handler
-    let resizeTimeout: number;
+    let resizeTimeout: number | undefined;
     const handleResize = () => {
       clearTimeout(resizeTimeout);
       resizeTimeout = window.setTimeout(() => {
@@ -91,6 +96,16 @@ export class MediaGridAlignment {
     };
 
     window.addEventListener('resize', handleResize);
+    this.removeResizeListener = () => {
+      clearTimeout(resizeTimeout);
+      window.removeEventListener('resize', handleResize);
+    };
+
+    this.fontEvents = new EventManager();
+    this.fontEvents.onFontLoad(CellMeasurement.FONT_FILTER, () => {
+      this.lineHeight = MediaGridAlignment.getLineHeight(container);
+      this.alignContainer(container);
+    });
   }
 
   /**
@@ -129,6 +144,11 @@ export class MediaGridAlignment {
    */
   destroy(): void {
     this.resizeObserver?.disconnect();
+    this.resizeObserver = undefined;
+    this.removeResizeListener?.();
+    this.removeResizeListener = undefined;
+    this.fontEvents?.cleanup();
+    this.fontEvents = undefined;
   }
 
   /**
@@ -2,6 +2,7 @@
  * Mobile terminal integration - combines touch, keyboard, and navigation
  */
 
+import { MonospaceGrid } from './MonospaceGrid';
 import { TouchGestureManager, isMobileDevice, getCellFromCoordinates } from './TouchGestures';
 import { VirtualKeyboard } from './VirtualKeyboard';
 
@@ -14,6 +15,8 @@ export interface MobileTerminalConfig {
 export class MobileTerminal {
   private container: HTMLElement;
   private touchManager: TouchGestureManager | null = null;
+  // Cell metrics of the terminal's own font, for mapping taps to cells
+  private grid: MonospaceGrid | null = null;
   private virtualKeyboard: VirtualKeyboard | null = null;
   private navigationUI: HTMLElement | null = null;
   private swipeIndicator: HTMLElement | null = null;
@@ -50,6 +53,7 @@ export class MobileTerminal {
     const terminalWrapper = this.container.querySelector('.terminal-wrapper') as HTMLElement;
     if (!terminalWrapper) return;
 
+    this.grid = new MonospaceGrid(terminalWrapper);
     this.touchManager = new TouchGestureManager(terminalWrapper);
 
     // Swipe handlers for navigation
@@ -239,6 +243,8 @@ export class MobileTerminal {
   }
 
   private recalculateGrid(): void {
+    this.grid?.remeasure();
+
     // Trigger grid recalculation
     if (this.pushEvent) {
       this.pushEvent('recalculate_grid', {});
@@ -342,6 +348,8 @@ export class MobileTerminal {
 
   public destroy(): void {
     this.touchManager?.destroy();
+    this.grid?.destroy();
+    this.grid = null;
     this.virtualKeyboard?.destroy();
     this.navigationUI?.remove();
     this.swipeIndicator?.remove();
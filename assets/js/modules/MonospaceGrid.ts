@@ -0,0 +1,240 @@
+/**
+ * Module for the live monospace grid
+ *
+ * Measures the character cell of a container's font and publishes it as
+ * CSS custom properties on the container, kept current across resizes and
+ * Monaspace font swaps:
+ *
+ *   --cell-width   advance width of one character, in px
+ *   --cell-height  line height, in px
+ *   --grid-cols    whole cells that fit the container's width
+ *
+ * Grids are registered per container. `MonospaceGrid.forElement()` returns
+ * the grid of the nearest gridded ancestor, or the page grid on <body>, so
+ * other modules read cell metrics from here instead of estimating them.
+ */
+import { CellDimensions, CellMetrics, DebugResult, GridConfig, GridEdge, GridEvents, GridProperties } from '../types';
+import { CellMeasurement, MeasurementConfig } from './CellMeasurement';
+import { EventManager } from './EventManager';
+import { GridAlignment } from './GridAlignment';
+import { UnicodeWidth } from './UnicodeWidth';
+
+export type MonospaceGridConfig = Omit<GridConfig, 'container'>;
+
+const grids = new WeakMap<HTMLElement, MonospaceGrid>();
+let pageGrid: MonospaceGrid | null = null;
+
+export class MonospaceGrid {
+  private readonly container: HTMLElement;
+  private readonly config: MonospaceGridConfig;
+  private readonly events = new EventManager();
+  private readonly emitter = new EventManager<GridEvents>();
+  private alignment: GridAlignment | null = null;
+  private cell: CellDimensions = { width: 0, height: 0 };
+  private metrics: CellMetrics | null = null;
+  private columns = 0;
+  private rows = 0;
+  private published: GridProperties | null = null;
+  private frame = 0;
+
+  constructor(container: HTMLElement, config: MonospaceGridConfig = {}) {
+    if (!container) {
+      throw new Error('Container element is required');
+    }
+
+    grids.get(container)?.destroy();
+    grids.set(container, this);
+
+    this.container = container;
+    this.config = config;
+
+    this.measure(CellMeasurement.measure(this.measurementConfig()));
+    CellMeasurement.watch(cell => this.measure(cell), this.measurementConfig(), this.events);
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.events.observe(new ResizeObserver(() => this.scheduleUpdate())).observe(container);
+    } else {
+      this.events.listen(window, 'resize', () => this.scheduleUpdate());
+    }
+  }
+
+  /**
+   * The grid for `<body>`, created on first use
+   */
+  static page(): MonospaceGrid {
+    if (!pageGrid || !pageGrid.container.isConnected) {
+      pageGrid = new MonospaceGrid(document.body);
+    }
+    return pageGrid;
+  }
+
+  /**
+   * The grid of the nearest gridded ancestor, else the page grid
+   */
+  static forElement(element: Element): MonospaceGrid {
+    for (let node: Element | null = element; node; node = node.parentElement) {
+      const grid = grids.get(node as HTMLElement);
+      if (grid) return grid;
+    }
+    return MonospaceGrid.page();
+  }
+
+  /**
+   * Cell metrics that apply to an element
+   */
+  static metricsFor(element: Element): CellDimensions {
+    return MonospaceGrid.forElement(element).getCellDimensions();
+  }
+
+  getCellDimensions(): CellDimensions {
+    return { ...this.cell };
+  }
+
+  /**
+   * Full measurement behind the cell: glyph class widths, fallback font
+   */
+  getMetrics(): CellMetrics | null {
+    return this.metrics;
+  }
+
+  getProperties(): GridProperties {
+    return {
+      cellWidth: this.cell.width,
+      cellHeight: this.cell.height,
+      columns: this.columns,
+      rows: this.rows,
+      exactWidth: this.columns * this.cell.width
+    };
+  }
+
+  /**
+   * Converts viewport coordinates to a cell in this grid
+   * @param x - clientX
+   * @param y - clientY
+   * @param line - Text of the row under the point; snaps the column to the
+   *   start of a wide character and reports its string offset
+   * @returns Zero-based {row, col, index?}, or null outside the grid
+   */
+  getCellAtPoint(x: number, y: number, line?: string): { row: number; col: number; index?: number } | null {
+    if (!this.cell.width || !this.cell.height) return null;
+
+    const rect = this.container.getBoundingClientRect();
+    const col = Math.floor((x - rect.left) / this.cell.width);
+    const row = Math.floor((y - rect.top) / this.cell.height);
+
+    if (col < 0 || col >= this.columns || row < 0 || row >= this.rows) {
+      return null;
+    }
+
+    const grapheme = line !== undefined ? UnicodeWidth.locateColumn(line, col) : null;
+    return grapheme ? { row, col: grapheme.column, index: grapheme.index } : { row, col };
+  }
+
+  /**
+   * Pixel width text should occupy on this grid, counting wide characters
+   * as two cells
+   */
+  textWidth(text: string): number {
+    return UnicodeWidth.stringWidth(text) * this.cell.width;
+  }
+
+  isAligned(element: HTMLElement, edges?: GridEdge[]): boolean {
+    return this.alignment?.isAligned(element, edges).isAligned ?? false;
+  }
+
+  debugGrid(addVisualDebug = false, selectors?: string[]): DebugResult {
+    if (!this.alignment) {
+      throw new Error('Grid not measured');
+    }
+    return this.alignment.debugGrid(addVisualDebug, selectors);
+  }
+
+  clearDebug(): void {
+    this.alignment?.clearDebug();
+  }
+
+  /**
+   * Measures again, e.g. after the container's font size was changed
+   */
+  remeasure(): void {
+    this.measure(CellMeasurement.measure(this.measurementConfig()));
+  }
+
+  /**
+   * Subscribes to grid changes
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof GridEvents>(event: K, callback: (payload: GridEvents[K]) => void): () => void {
+    return this.emitter.on(event, callback);
+  }
+
+  destroy(): void {
+    this.events.cleanup();
+    this.emitter.cleanup();
+    this.clearDebug();
+    this.alignment = null;
+
+    if (grids.get(this.container) === this) grids.delete(this.container);
+    if (pageGrid === this) pageGrid = null;
+
+    this.container.style.removeProperty('--cell-width');
+    this.container.style.removeProperty('--cell-height');
+    this.container.style.removeProperty('--grid-cols');
+  }
+
+  /**
+   * Font settings to measure with: the config, else the container's own
+   * @private
+   */
+  private measurementConfig(): Partial<MeasurementConfig> {
+    const style = window.getComputedStyle(this.container);
+    return {
+      fontFamily: this.config.fontFamily ?? style.fontFamily,
+      fontSize: this.config.fontSize ?? style.fontSize,
+      lineHeight: this.config.lineHeight ?? style.lineHeight,
+      ...(this.config.sample ? { sample: this.config.sample } : {})
+    };
+  }
+
+  private measure(metrics: CellMetrics): void {
+    this.metrics = metrics;
+    this.cell = { width: metrics.width, height: metrics.height };
+    this.alignment = new GridAlignment(this.container, this.cell.width, this.cell.height);
+    this.update();
+  }
+
+  private scheduleUpdate(): void {
+    if (this.frame) return;
+    this.frame = this.events.requestAnimationFrame(() => {
+      this.frame = 0;
+      this.update();
+    });
+  }
+
+  /**
+   * Recounts whole cells and republishes the custom properties
+   * @private
+   */
+  private update(): void {
+    const previous = this.published;
+    const { width, height } = this.cell;
+
+    this.columns = width > 0 ? Math.floor(this.container.clientWidth / width) : 0;
+    this.rows = height > 0 ? Math.floor(this.container.clientHeight / height) : 0;
+
+    const properties = this.getProperties();
+    if (
+      previous &&
+      previous.cellWidth === properties.cellWidth &&
+      previous.cellHeight === properties.cellHeight &&
+      previous.columns === properties.columns &&
+      previous.rows === properties.rows
+    ) return;
+
+    this.published = properties;
+    this.container.style.setProperty('--cell-width', `${width}px`);
+    this.container.style.setProperty('--cell-height', `${height}px`);
+    this.container.style.setProperty('--grid-cols', String(this.columns));
+    this.emitter.emit('change', properties);
+  }
+}
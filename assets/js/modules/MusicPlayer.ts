@@ -0,0 +1,345 @@
+/**
+ * Module for the site-wide music player widget
+ *
+ * Persists the expanded/minimized state, the dragged position and the last
+ * loaded track. While minimized a small bar offers play/pause/next; its
+ * buttons emit `spotify:command` on the event bus, the same event server
+ * pushes arrive as, and this module relays those commands to the embedded
+ * player.
+ */
+import { ClientEvents, SpotifyCommand } from '../types';
+import { EventManager } from './EventManager';
+
+export type MusicCommandType = 'play' | 'pause' | 'next' | 'load_playlist';
+
+export interface MusicPlayerState {
+  expanded: boolean;
+  position: { x: number; y: number } | null;
+  track: string | null;
+}
+
+const STORAGE_KEY = 'phx:music-player';
+const SPOTIFY_ORIGIN = 'https://open.spotify.com';
+const EMBED_PARAMS = 'utm_source=generator&theme=0';
+const URI_PATTERN = /^spotify:(track|album|playlist|episode|show):([A-Za-z0-9]+)$/;
+
+// Embed postMessage commands for the commands this player understands
+const EMBED_COMMANDS: Record<string, string> = {
+  play: 'resume',
+  pause: 'pause',
+  next: 'next',
+};
+
+const DEFAULT_STATE: MusicPlayerState = { expanded: false, position: null, track: null };
+
+export class MusicPlayer {
+  private widget: HTMLElement | null = null;
+  private iframe: HTMLIFrameElement | null = null;
+  private miniBar: HTMLElement | null = null;
+  private playButton: HTMLButtonElement | null = null;
+  private state: MusicPlayerState;
+  private playing = false;
+  private started = false;
+  private drag: { pointerId: number; offsetX: number; offsetY: number } | null = null;
+
+  private readonly bus: EventManager<ClientEvents>;
+  private unsubscribeCommand: (() => void) | null = null;
+
+  private readonly handleMessage = (e: MessageEvent) => {
+    if (e.origin !== SPOTIFY_ORIGIN || e.source !== this.iframe?.contentWindow) return;
+    this.handleEmbedMessage(e.data);
+  };
+
+  private readonly handleResize = () => {
+    if (this.state.expanded) this.applyPosition();
+  };
+
+  constructor(bus: EventManager<ClientEvents>) {
+    this.bus = bus;
+    this.state = this.load();
+  }
+
+  /**
+   * Attaches to the widget element and restores the saved state
+   */
+  attach(widget: HTMLElement): void {
+    if (this.widget) return;
+
+    this.widget = widget;
+    this.iframe = widget.querySelector<HTMLIFrameElement>('iframe');
+
+    this.restoreTrack();
+    this.createHandle();
+    this.createMiniBar();
+    this.render();
+
+    this.unsubscribeCommand = this.bus.on('spotify:command', command => this.relay(command));
+    window.addEventListener('message', this.handleMessage);
+    window.addEventListener('resize', this.handleResize);
+  }
+
+  detach(): void {
+    this.unsubscribeCommand?.();
+    this.unsubscribeCommand = null;
+    window.removeEventListener('message', this.handleMessage);
+    window.removeEventListener('resize', this.handleResize);
+
+    this.miniBar?.remove();
+    this.widget?.querySelector('.music-player-handle')?.remove();
+    this.widget = null;
+    this.iframe = null;
+    this.miniBar = null;
+    this.playButton = null;
+  }
+
+  isExpanded(): boolean {
+    return this.state.expanded;
+  }
+
+  toggle(): void {
+    this.setExpanded(!this.state.expanded);
+  }
+
+  setExpanded(expanded: boolean): void {
+    this.state.expanded = expanded;
+    this.save();
+    this.render();
+  }
+
+  /**
+   * Sends a command through the shared Spotify command path
+   */
+  command(type: MusicCommandType, data: Record<string, any> = {}): void {
+    this.bus.emit('spotify:command', { type, ...data });
+  }
+
+  /**
+   * Applies a Spotify command to the embedded player
+   * @private
+   */
+  private relay(command: SpotifyCommand): void {
+    if (command.type === 'load_playlist' && command.playlistId) {
+      this.loadTrack(`spotify:playlist:${command.playlistId}`);
+      return;
+    }
+
+    const embedCommand = EMBED_COMMANDS[command.type];
+    if (!embedCommand || !this.iframe?.contentWindow) return;
+
+    this.iframe.contentWindow.postMessage({ command: embedCommand }, SPOTIFY_ORIGIN);
+
+    // Optimistic until the embed reports its playback state
+    if (command.type === 'play') this.setPlaying(true);
+    if (command.type === 'pause') this.setPlaying(false);
+  }
+
+  /**
+   * Tracks playback state and the current track from the embed
+   * @private
+   */
+  private handleEmbedMessage(data: any): void {
+    if (!data || data.type !== 'playback_update' || !data.payload) return;
+
+    const { isPaused, playingURI } = data.payload;
+    if (typeof isPaused === 'boolean') this.setPlaying(!isPaused);
+
+    if (typeof playingURI === 'string' && URI_PATTERN.test(playingURI) && playingURI !== this.state.track) {
+      this.state.track = playingURI;
+      this.save();
+    }
+  }
+
+  private setPlaying(playing: boolean): void {
+    this.playing = playing;
+    if (playing) this.started = true;
+    this.render();
+  }
+
+  /**
+   * Points the embed at a Spotify URI and remembers it
+   * @private
+   */
+  private loadTrack(uri: string): void {
+    const src = MusicPlayer.embedUrl(uri);
+    if (!src || !this.iframe) return;
+
+    this.iframe.src = src;
+    this.state.track = uri;
+    this.playing = false;
+    this.save();
+    this.render();
+  }
+
+  /**
+   * Reopens the last track instead of the layout's default playlist
+   * @private
+   */
+  private restoreTrack(): void {
+    if (!this.iframe || !this.state.track) return;
+
+    const src = MusicPlayer.embedUrl(this.state.track);
+    if (src && !this.iframe.src.startsWith(src.split('?')[0])) {
+      this.iframe.src = src;
+    }
+  }
+
+  /**
+   * Adds a drag handle above the embed
+   * @private
+   */
+  private createHandle(): void {
+    if (!this.widget) return;
+
+    const handle = document.createElement('div');
+    handle.className = 'music-player-handle';
+    handle.setAttribute('aria-hidden', 'true');
+    handle.title = 'Drag to move, double-click to reset';
+    handle.textContent = '♫ ::::';
+
+    handle.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!this.widget) return;
+      const rect = this.widget.getBoundingClientRect();
+      this.drag = { pointerId: e.pointerId, offsetX: e.clientX - rect.left, offsetY: e.clientY - rect.top };
+      handle.setPointerCapture(e.pointerId);
+      e.preventDefault();
+    });
+
+    handle.addEventListener('pointermove', (e: PointerEvent) => {
+      if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+      this.state.position = { x: e.clientX - this.drag.offsetX, y: e.clientY - this.drag.offsetY };
+      this.applyPosition();
+    });
+
+    const endDrag = (e: PointerEvent) => {
+      if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+      this.drag = null;
+      this.save();
+    };
+    handle.addEventListener('pointerup', endDrag);
+    handle.addEventListener('pointercancel', endDrag);
+
+    handle.addEventListener('dblclick', () => {
+      this.state.position = null;
+      this.save();
+      this.applyPosition();
+    });
+
+    this.widget.prepend(handle);
+  }
+
+  /**
+   * Builds the play/pause/next bar shown while minimized
+   * @private
+   */
+  private createMiniBar(): void {
+    const bar = document.createElement('div');
+    bar.className = 'music-mini-player';
+    bar.setAttribute('role', 'group');
+    bar.setAttribute('aria-label', 'Music controls');
+
+    const play = document.createElement('button');
+    play.type = 'button';
+    play.addEventListener('click', () => this.command(this.playing ? 'pause' : 'play'));
+
+    const next = document.createElement('button');
+    next.type = 'button';
+    next.textContent = '»';
+    next.setAttribute('aria-label', 'Next track');
+    next.addEventListener('click', () => this.command('next'));
+
+    const expand = document.createElement('button');
+    expand.type = 'button';
+    expand.textContent = '♫';
+    expand.setAttribute('aria-label', 'Show music player');
+    expand.addEventListener('click', () => this.setExpanded(true));
+
+    bar.append(play, next, expand);
+    document.body.appendChild(bar);
+
+    this.miniBar = bar;
+    this.playButton = play;
+  }
+
+  /**
+   * Syncs classes, position and mini bar with the current state
+   * @private
+   */
+  private render(): void {
+    if (!this.widget) return;
+
+    this.widget.classList.toggle('music-player-expanded', this.state.expanded);
+    this.widget.classList.toggle('music-player-minimized', !this.state.expanded);
+    this.applyPosition();
+
+    if (this.playButton) {
+      this.playButton.textContent = this.playing ? '❚❚' : '▶';
+      this.playButton.setAttribute('aria-label', this.playing ? 'Pause' : 'Play');
+    }
+
+    // Only offer the mini bar once something has played (or was playing last visit)
+    if (this.miniBar) {
+      this.miniBar.hidden = this.state.expanded || !(this.started || this.state.track);
+    }
+  }
+
+  /**
+   * Places the expanded widget at the saved position, kept inside the viewport
+   * @private
+   */
+  private applyPosition(): void {
+    if (!this.widget) return;
+
+    const style = this.widget.style;
+    if (!this.state.expanded || !this.state.position) {
+      // Minimized placement comes from the stylesheet
+      style.removeProperty('left');
+      style.removeProperty('top');
+      style.removeProperty('bottom');
+      return;
+    }
+
+    const rect = this.widget.getBoundingClientRect();
+    const x = Math.min(Math.max(0, this.state.position.x), Math.max(0, window.innerWidth - rect.width));
+    const y = Math.min(Math.max(0, this.state.position.y), Math.max(0, window.innerHeight - rect.height));
+
+    style.left = `${x}px`;
+    style.top = `${y}px`;
+    style.bottom = 'auto';
+  }
+
+  private load(): MusicPlayerState {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return { ...DEFAULT_STATE };
+
+      const parsed = JSON.parse(stored) as Partial<MusicPlayerState>;
+      const position = parsed.position;
+      return {
+        expanded: parsed.expanded === true,
+        position:
+          position && Number.isFinite(position.x) && Number.isFinite(position.y)
+            ? { x: position.x, y: position.y }
+            : null,
+        track: typeof parsed.track === 'string' && URI_PATTERN.test(parsed.track) ? parsed.track : null,
+      };
+    } catch (_error) {
+      return { ...DEFAULT_STATE };
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to persist music player state:', error);
+    }
+  }
+
+  /**
+   * Embed URL for a Spotify URI such as "spotify:track:abc123"
+   */
+  static embedUrl(uri: string): string | null {
+    const match = uri.match(URI_PATTERN);
+    return match ? `${SPOTIFY_ORIGIN}/embed/${match[1]}/${match[2]}?${EMBED_PARAMS}` : null;
+  }
+}
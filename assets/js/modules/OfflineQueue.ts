@@ -0,0 +1,238 @@
+/**
+ * Module for queueing hook pushEvents while the LiveView is disconnected
+ *
+ * LiveView rejects pushEvent calls made while the view isn't joined (and
+ * silently drops them when a reply callback was given). Hooks wrapped here
+ * queue those calls instead and replay them in order once the connection
+ * is back. Entries for hooks whose element has left the page, or that
+ * waited longer than maxAge, are discarded. Events in skipEvents are never
+ * queued: they go straight to LiveView and fail like unwrapped pushes.
+ */
+import { PhoenixLiveViewHook, PushEvent, ReplyCallback } from '../types/hooks';
+
+// Rejections LiveView raises before anything was sent
+const NOT_SENT = /not connected|no connection/;
+
+interface QueuedEvent {
+  hook: PhoenixLiveViewHook;
+  event: string;
+  payload: any;
+  queuedAt: number;
+  resolve: (reply: any) => void;
+  reject: (error: Error) => void;
+}
+
+export interface OfflineQueueOptions {
+  maxSize?: number;
+  maxAge?: number;
+  retryInterval?: number;
+  // Only worth sending live, e.g. telemetry that is stale once replayed
+  skipEvents?: readonly string[];
+}
+
+export class OfflineQueue {
+  private readonly options: Required<OfflineQueueOptions>;
+  private queue: QueuedEvent[] = [];
+  private originals = new WeakMap<PhoenixLiveViewHook, PushEvent>();
+  private listeners: Set<(size: number) => void>;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+
+  constructor(options: OfflineQueueOptions = {}) {
+    this.options = {
+      maxSize: 50,
+      maxAge: 5 * 60 * 1000,
+      retryInterval: 500,
+      skipEvents: [],
+      ...options
+    };
+    this.listeners = new Set();
+  }
+
+  /**
+   * Wraps every hook so its pushEvent queues while disconnected
+   */
+  wrapHooks<T extends Record<string, object>>(hooks: T): T {
+    const wrapped: Record<string, object> = {};
+    Object.entries(hooks).forEach(([name, hook]) => {
+      wrapped[name] = this.wrap(hook);
+    });
+    return wrapped as T;
+  }
+
+  /**
+   * Returns a copy of a hook whose mounted() installs the queueing pushEvent
+   */
+  wrap<T extends object>(hook: T): T {
+    const queue = this;
+    const { mounted } = hook as PhoenixLiveViewHook;
+
+    return {
+      ...hook,
+      mounted(this: PhoenixLiveViewHook) {
+        queue.attach(this);
+        return mounted?.call(this);
+      }
+    };
+  }
+
+  /**
+   * Replaces pushEvent on a mounted hook instance
+   */
+  attach(hook: PhoenixLiveViewHook): void {
+    if (this.originals.has(hook) || typeof hook.pushEvent !== 'function') return;
+
+    const original = hook.pushEvent as unknown as PushEvent;
+    this.originals.set(hook, original);
+
+    const pushEvent = (event: string, payload: any = {}, onReply?: ReplyCallback): Promise<any> | void => {
+      const reply = this.push(hook, event, payload);
+      if (!onReply) return reply;
+      // The promise form doesn't expose LiveView's ref
+      reply.then(result => onReply(result, 0)).catch(() => {});
+    };
+    (hook as { pushEvent: unknown }).pushEvent = pushEvent;
+  }
+
+  size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Replays queued events in order, each once the previous one went out;
+   * retries while the view is still rejoining
+   */
+  async flush(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.flushing) return;
+
+    this.expire();
+    this.flushing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const entry = this.queue[0];
+        const original = this.originals.get(entry.hook);
+
+        if (!original || !document.contains(entry.hook.el)) {
+          this.remove(entry);
+          entry.reject(new Error(`Dropped queued "${entry.event}": hook was removed`));
+          continue;
+        }
+
+        if (!this.isConnected(entry.hook)) {
+          this.retry();
+          break;
+        }
+
+        try {
+          const reply = await original.call(entry.hook, entry.event, entry.payload);
+          this.remove(entry);
+          entry.resolve(reply);
+        } catch (error) {
+          if (this.notSent(error)) {
+            // Socket is up but the channel hasn't rejoined yet
+            this.retry();
+            break;
+          }
+          this.remove(entry);
+          entry.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    } finally {
+      this.flushing = false;
+      this.notify();
+    }
+  }
+
+  /**
+   * Subscribes to queue size changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: (size: number) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * Sends right away when connected and nothing is waiting, else queues;
+   * a push LiveView refused to send is queued too
+   * @private
+   */
+  private push(hook: PhoenixLiveViewHook, event: string, payload: any): Promise<any> {
+    const original = this.originals.get(hook)!;
+    if (this.options.skipEvents.includes(event)) {
+      return original.call(hook, event, payload);
+    }
+
+    if (this.queue.length > 0 || !this.isConnected(hook)) {
+      return this.enqueue(hook, event, payload);
+    }
+
+    return original.call(hook, event, payload).catch(error => {
+      if (!this.notSent(error)) throw error;
+      const queued = this.enqueue(hook, event, payload);
+      // The socket is up, so no reconnect will flush: the view is rejoining
+      if (!this.retryTimer && !this.flushing) this.retry();
+      return queued;
+    });
+  }
+
+  private enqueue(hook: PhoenixLiveViewHook, event: string, payload: any): Promise<any> {
+    this.expire();
+
+    if (this.queue.length >= this.options.maxSize) {
+      const dropped = this.queue.shift()!;
+      dropped.reject(new Error(`Dropped queued "${dropped.event}": offline queue full`));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ hook, event, payload, queuedAt: Date.now(), resolve, reject });
+      this.notify();
+    });
+  }
+
+  private remove(entry: QueuedEvent): void {
+    this.queue = this.queue.filter(queued => queued !== entry);
+  }
+
+  private retry(): void {
+    this.retryTimer = setTimeout(() => this.flush(), this.options.retryInterval);
+  }
+
+  private isConnected(hook: PhoenixLiveViewHook): boolean {
+    // Unknown: try, and queue if LiveView refuses
+    return hook.liveSocket?.isConnected() ?? true;
+  }
+
+  private notSent(error: unknown): boolean {
+    return error instanceof Error && NOT_SENT.test(error.message);
+  }
+
+  /**
+   * Drops entries older than maxAge
+   * @private
+   */
+  private expire(): void {
+    const cutoff = Date.now() - this.options.maxAge;
+    this.queue = this.queue.filter(entry => {
+      if (entry.queuedAt >= cutoff) return true;
+      entry.reject(new Error(`Dropped queued "${entry.event}": expired while offline`));
+      return false;
+    });
+  }
+
+  private notify(): void {
+    const size = this.queue.length;
+    this.listeners.forEach(callback => {
+      try {
+        callback(size);
+      } catch (error) {
+        console.error('Error in offline queue listener:', error);
+      }
+    });
+  }
+}
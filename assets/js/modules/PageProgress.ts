@@ -0,0 +1,221 @@
+/**
+ * Module for the page-loading progress indicator
+ *
+ * Shows progress during live navigation and form submits, in one of two
+ * styles:
+ * - bar:   the vendored topbar canvas, painted with the active theme's
+ *          --accent-color / --secondary-color and repainted on theme changes
+ * - ascii: a terminal-style `[#####.....]  50%` line in the monospace grid,
+ *          colored by CSS
+ *
+ * With prefers-reduced-motion the indicator doesn't trickle: the bar is drawn
+ * full width and the ascii line shows a static "loading" label until done.
+ */
+import { EventManager } from './EventManager';
+import type { ClientEvents } from '../types';
+
+export type ProgressStyle = 'bar' | 'ascii';
+
+export interface TopbarLike {
+  config(options: Record<string, unknown>): void;
+  show(delay?: number): void;
+  hide(): void;
+  progress(to?: number | string): number;
+}
+
+export interface PageProgressOptions {
+  style?: ProgressStyle;
+  // Navigations faster than this never show the indicator
+  delay?: number;
+  // Cells between the brackets in ascii style
+  width?: number;
+}
+
+export const STORAGE_KEY = 'phx:progress-style';
+
+const ELEMENT_ID = 'page-progress';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export class PageProgress {
+  private readonly topbar: TopbarLike;
+  private readonly bus: EventManager<ClientEvents>;
+  private readonly delay: number;
+  private readonly width: number;
+  private style: ProgressStyle;
+  private events: EventManager | null = null;
+  private reducedMotion: MediaQueryList | null = null;
+  private element: HTMLElement | null = null;
+  private progress = 0;
+  private loading = false;
+  private delayTimer = 0;
+  private frame = 0;
+
+  constructor(topbar: TopbarLike, bus: EventManager<ClientEvents>, options: PageProgressOptions = {}) {
+    this.topbar = topbar;
+    this.bus = bus;
+    this.delay = options.delay ?? 300;
+    this.width = options.width ?? 20;
+    this.style = PageProgress.savedStyle() ?? options.style ?? 'bar';
+  }
+
+  start(): void {
+    if (this.events) return;
+    const events = new EventManager();
+    this.events = events;
+
+    events.listen(window, 'phx:page-loading-start', () => this.show());
+    events.listen(window, 'phx:page-loading-stop', () => this.hide());
+    events.onCleanup(this.bus.on('theme:change', () => this.configureBar()));
+
+    if (typeof window.matchMedia === 'function') {
+      this.reducedMotion = window.matchMedia(REDUCED_MOTION_QUERY);
+      events.listen(this.reducedMotion, 'change', () => this.configureBar());
+    }
+
+    this.configureBar();
+  }
+
+  stop(): void {
+    this.hide();
+    this.events?.cleanup();
+    this.events = null;
+    this.reducedMotion = null;
+    this.element?.remove();
+    this.element = null;
+  }
+
+  getStyle(): ProgressStyle {
+    return this.style;
+  }
+
+  /**
+   * Switches style and remembers it for later visits
+   */
+  setStyle(style: ProgressStyle): void {
+    if (style === this.style) return;
+    const wasLoading = this.loading;
+    this.hide();
+
+    this.style = style;
+    try {
+      localStorage.setItem(STORAGE_KEY, style);
+    } catch (error) {
+      console.warn('Failed to save progress style:', error);
+    }
+
+    if (wasLoading) this.show();
+  }
+
+  private static savedStyle(): ProgressStyle | null {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved === 'bar' || saved === 'ascii' ? saved : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private prefersReducedMotion(): boolean {
+    return this.reducedMotion?.matches ?? false;
+  }
+
+  /**
+   * Reads the active theme's colors into topbar; canvas can't use var()
+   * @private
+   */
+  private configureBar(): void {
+    const styles = getComputedStyle(document.documentElement);
+    const accent = styles.getPropertyValue('--accent-color').trim() || styles.getPropertyValue('--text-color').trim();
+    const secondary = styles.getPropertyValue('--secondary-color').trim() || accent;
+
+    this.topbar.config({
+      autoRun: !this.prefersReducedMotion(),
+      barColors: { 0: accent, 1: secondary },
+      shadowColor: accent,
+      shadowBlur: this.prefersReducedMotion() ? 0 : 6
+    });
+  }
+
+  private show(): void {
+    if (this.loading) return;
+    this.loading = true;
+
+    if (this.style === 'bar' && !this.prefersReducedMotion()) {
+      this.topbar.show(this.delay);
+      return;
+    }
+
+    if (this.style === 'bar') {
+      this.delayTimer = this.events?.setTimeout(() => {
+        this.delayTimer = 0;
+        this.topbar.show();
+        this.topbar.progress(1);
+      }, this.delay) ?? 0;
+      return;
+    }
+
+    this.delayTimer = this.events?.setTimeout(() => {
+      this.delayTimer = 0;
+      this.progress = 0;
+      this.renderAscii();
+      if (!this.prefersReducedMotion()) this.trickle();
+    }, this.delay) ?? 0;
+  }
+
+  private hide(): void {
+    if (!this.loading) return;
+    this.loading = false;
+
+    this.events?.clearTimeout(this.delayTimer);
+    this.events?.cancelAnimationFrame(this.frame);
+    this.delayTimer = 0;
+    this.frame = 0;
+
+    if (this.style === 'bar') {
+      this.topbar.hide();
+    } else if (this.element) {
+      this.element.hidden = true;
+    }
+  }
+
+  /**
+   * Approaches 100% ever more slowly, like topbar's autoRun
+   * @private
+   */
+  private trickle(): void {
+    if (!this.events) return;
+    this.frame = this.events.requestAnimationFrame(() => {
+      this.progress = Math.min(0.99, this.progress + 0.05 * Math.pow(1 - Math.sqrt(this.progress), 2));
+      this.renderAscii();
+      this.trickle();
+    });
+  }
+
+  private renderAscii(): void {
+    if (!this.element) {
+      this.element = document.createElement('div');
+      this.element.id = ELEMENT_ID;
+      this.element.className = 'page-progress-ascii';
+      this.element.setAttribute('role', 'progressbar');
+      this.element.setAttribute('aria-label', 'Page loading');
+      this.element.setAttribute('aria-valuemin', '0');
+      this.element.setAttribute('aria-valuemax', '100');
+    }
+    if (!this.element.isConnected) document.body.appendChild(this.element);
+    this.element.hidden = false;
+
+    if (this.prefersReducedMotion()) {
+      this.element.removeAttribute('aria-valuenow');
+      this.element.textContent = `[${'.'.repeat(this.width)}] loading`;
+      return;
+    }
+
+    const percent = Math.floor(this.progress * 100);
+    const filled = Math.round(this.progress * this.width);
+    const text = `[${'#'.repeat(filled)}${'.'.repeat(this.width - filled)}] ${String(percent).padStart(3)}%`;
+    if (this.element.textContent === text) return;
+
+    this.element.setAttribute('aria-valuenow', String(percent));
+    this.element.textContent = text;
+  }
+}
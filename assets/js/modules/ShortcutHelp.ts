@@ -0,0 +1,259 @@
+/**
+ * Module for the keyboard shortcut help overlay ("?")
+ *
+ * Generated from the ShortcutRegistry, grouped by scope. Activating a row
+ * records a new key combination for that shortcut; Escape closes the overlay
+ * (or cancels recording).
+ */
+import { ShortcutInfo, ShortcutRegistry, ShortcutScope } from './ShortcutRegistry';
+
+const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: 'Global',
+  terminal: 'Terminal',
+  stl: '3D Viewer',
+  modal: 'Dialogs',
+};
+
+export class ShortcutHelp {
+  private readonly registry: ShortcutRegistry;
+  private overlay: HTMLDivElement | null = null;
+  private status: HTMLElement | null = null;
+  private recordingId: string | null = null;
+  private releaseScope: (() => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private previouslyFocused: HTMLElement | null = null;
+
+  constructor(registry: ShortcutRegistry) {
+    this.registry = registry;
+  }
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  toggle(): void {
+    if (this.overlay) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open(): void {
+    if (this.overlay || !document.body) return;
+
+    this.previouslyFocused = document.activeElement as HTMLElement | null;
+    this.releaseScope = this.registry.pushModalScope();
+
+    const overlay = document.createElement('div');
+    overlay.className = 'shortcut-help-backdrop';
+    overlay.addEventListener('click', (e: MouseEvent) => {
+      if (e.target === overlay) this.close();
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'shortcut-help';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-labelledby', 'shortcut-help-title');
+    dialog.addEventListener('keydown', (e: KeyboardEvent) => this.handleKeyDown(e));
+    dialog.addEventListener('click', (e: MouseEvent) => this.handleClick(e));
+
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+
+    this.render();
+    this.unsubscribe = this.registry.onChange(() => this.render());
+
+    dialog.querySelector<HTMLElement>('button')?.focus();
+  }
+
+  close(): void {
+    if (!this.overlay) return;
+
+    this.overlay.remove();
+    this.overlay = null;
+    this.status = null;
+    this.recordingId = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.releaseScope?.();
+    this.releaseScope = null;
+
+    if (this.previouslyFocused && document.contains(this.previouslyFocused)) {
+      this.previouslyFocused.focus();
+    }
+    this.previouslyFocused = null;
+  }
+
+  /**
+   * Rebuilds the dialog contents from the registry
+   * @private
+   */
+  private render(): void {
+    const dialog = this.overlay?.querySelector<HTMLElement>('.shortcut-help');
+    if (!dialog) return;
+
+    const focusedId = (document.activeElement as HTMLElement | null)?.dataset?.shortcutId;
+    const groups = new Map<ShortcutScope, ShortcutInfo[]>();
+    this.registry.list().forEach(info => {
+      if (!groups.has(info.scope)) groups.set(info.scope, []);
+      groups.get(info.scope)!.push(info);
+    });
+
+    dialog.replaceChildren();
+
+    const title = document.createElement('div');
+    title.id = 'shortcut-help-title';
+    title.className = 'shortcut-help-title';
+    title.textContent = 'KEYBOARD SHORTCUTS';
+    dialog.appendChild(title);
+
+    groups.forEach((infos, scope) => {
+      const section = document.createElement('section');
+      section.className = 'shortcut-help-section';
+
+      const heading = document.createElement('h2');
+      heading.textContent = SCOPE_LABELS[scope];
+      section.appendChild(heading);
+
+      infos.forEach(info => {
+        const row = document.createElement('button');
+        row.type = 'button';
+        row.className = 'shortcut-help-row';
+        row.dataset.shortcutId = info.id;
+
+        const recording = this.recordingId === info.id;
+        const keys = document.createElement('kbd');
+        keys.textContent = recording ? 'press keys…' : ShortcutRegistry.format(info.keys);
+        const label = document.createElement('span');
+        label.textContent = info.description;
+
+        row.append(keys, label);
+        row.classList.toggle('recording', recording);
+        row.classList.toggle('customized', info.keys !== info.defaultKeys);
+        row.setAttribute(
+          'aria-label',
+          `${info.description}: ${ShortcutRegistry.format(info.keys)}. Press Enter to change.`
+        );
+        section.appendChild(row);
+      });
+
+      dialog.appendChild(section);
+    });
+
+    const footer = document.createElement('div');
+    footer.className = 'shortcut-help-footer';
+
+    const reset = document.createElement('button');
+    reset.type = 'button';
+    reset.dataset.helpAction = 'reset';
+    reset.textContent = '[reset all]';
+
+    const close = document.createElement('button');
+    close.type = 'button';
+    close.dataset.helpAction = 'close';
+    close.textContent = '[close]';
+
+    this.status = document.createElement('div');
+    this.status.className = 'shortcut-help-status';
+    this.status.setAttribute('role', 'status');
+    this.status.setAttribute('aria-live', 'polite');
+
+    footer.append(reset, close);
+    dialog.append(footer, this.status);
+
+    if (focusedId) {
+      dialog.querySelector<HTMLElement>(`[data-shortcut-id="${focusedId}"]`)?.focus();
+    }
+  }
+
+  private handleClick(e: MouseEvent): void {
+    const target = e.target as HTMLElement;
+    const action = target.closest<HTMLElement>('[data-help-action]')?.dataset.helpAction;
+
+    if (action === 'close') {
+      this.close();
+      return;
+    }
+    if (action === 'reset') {
+      this.registry.reset();
+      this.announce('All shortcuts restored to defaults');
+      return;
+    }
+
+    const row = target.closest<HTMLElement>('[data-shortcut-id]');
+    if (row?.dataset.shortcutId) {
+      this.recordingId = row.dataset.shortcutId;
+      this.render();
+      this.announce('Press the new key combination, or Escape to cancel');
+    }
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (this.recordingId) {
+      this.record(e);
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      this.trapFocus(e);
+    }
+  }
+
+  /**
+   * Captures the next key combination as the new binding
+   * @private
+   */
+  private record(e: KeyboardEvent): void {
+    const combo = ShortcutRegistry.fromEvent(e);
+    if (!combo) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const id = this.recordingId!;
+    this.recordingId = null;
+
+    if (combo === 'Escape' || combo === 'Tab') {
+      this.render();
+      this.announce('Cancelled');
+      return;
+    }
+
+    try {
+      this.registry.rebind(id, combo);
+      this.announce(`Bound to ${ShortcutRegistry.format(combo)}`);
+    } catch (error) {
+      this.render();
+      this.announce((error as Error).message);
+    }
+  }
+
+  private trapFocus(e: KeyboardEvent): void {
+    const focusable = Array.from(this.overlay?.querySelectorAll<HTMLElement>('button') ?? []);
+    if (focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
+  private announce(message: string): void {
+    if (this.status) this.status.textContent = message;
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Module for registering keyboard shortcuts in one place
+ *
+ * Every binding belongs to a scope:
+ * - global:   anywhere on the page (not while typing in a form field)
+ * - terminal: focus inside an element with data-shortcut-scope="terminal"
+ * - stl:      focus inside an element with data-shortcut-scope="stl"
+ * - modal:    while a modal has pushed the modal scope; suppresses all others
+ *
+ * Scoped bindings win over global ones for the same key. User rebindings are
+ * persisted to localStorage and applied whenever a shortcut is registered.
+ */
+
+export type ShortcutScope = 'global' | 'terminal' | 'stl' | 'modal';
+
+export interface ShortcutOptions {
+  id: string;
+  keys: string;
+  description: string;
+  handler: (e: KeyboardEvent) => void;
+  scope?: ShortcutScope;
+  allowInInput?: boolean;
+  allowRepeat?: boolean;
+}
+
+export interface ShortcutInfo {
+  id: string;
+  keys: string;
+  defaultKeys: string;
+  description: string;
+  scope: ShortcutScope;
+}
+
+export interface ShortcutConflict {
+  keys: string;
+  ids: string[];
+}
+
+interface Shortcut extends Required<ShortcutOptions> {
+  defaultKeys: string;
+}
+
+const STORAGE_KEY = 'phx:shortcuts';
+const SCOPE_ATTRIBUTE = 'data-shortcut-scope';
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+const EDITABLE_SELECTOR = 'input, textarea, select, [contenteditable=""], [contenteditable="true"]';
+
+const NAMED_KEYS: Record<string, string> = {
+  esc: 'Escape',
+  space: ' ',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+};
+
+const isMac = (): boolean =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export class ShortcutRegistry {
+  private shortcuts: Map<string, Shortcut>;
+  private overrides: Record<string, string>;
+  private modalDepth = 0;
+  private listeners: Set<() => void>;
+  private target: Document | null = null;
+
+  private readonly handleKeyDown = (e: KeyboardEvent) => this.dispatch(e);
+
+  constructor() {
+    this.shortcuts = new Map();
+    this.listeners = new Set();
+    this.overrides = this.loadOverrides();
+  }
+
+  /**
+   * Starts listening for keydown events (capture phase)
+   */
+  start(target: Document = document): void {
+    if (this.target) return;
+    this.target = target;
+    target.addEventListener('keydown', this.handleKeyDown, true);
+  }
+
+  stop(): void {
+    this.target?.removeEventListener('keydown', this.handleKeyDown, true);
+    this.target = null;
+  }
+
+  /**
+   * Registers a shortcut; re-registering an id replaces the previous binding
+   * @returns Function that removes this registration
+   */
+  register(options: ShortcutOptions): () => void {
+    const defaultKeys = ShortcutRegistry.normalize(options.keys);
+    const override = this.overrides[options.id];
+
+    const shortcut: Shortcut = {
+      scope: 'global',
+      allowInInput: false,
+      allowRepeat: false,
+      ...options,
+      keys: override ? ShortcutRegistry.normalize(override) : defaultKeys,
+      defaultKeys,
+    };
+
+    this.shortcuts.set(shortcut.id, shortcut);
+
+    this.findConflicts(shortcut).forEach(other => {
+      console.warn(
+        `Shortcut ${ShortcutRegistry.format(shortcut.keys)} for "${shortcut.id}" ` +
+          `conflicts with "${other.id}" (${other.scope})`
+      );
+    });
+
+    this.notify();
+
+    return () => {
+      if (this.shortcuts.get(shortcut.id) === shortcut) {
+        this.unregister(shortcut.id);
+      }
+    };
+  }
+
+  unregister(id: string): void {
+    if (this.shortcuts.delete(id)) {
+      this.notify();
+    }
+  }
+
+  /**
+   * Lists registered shortcuts in registration order
+   */
+  list(): ShortcutInfo[] {
+    return Array.from(this.shortcuts.values()).map(({ id, keys, defaultKeys, description, scope }) => ({
+      id,
+      keys,
+      defaultKeys,
+      description,
+      scope,
+    }));
+  }
+
+  /**
+   * Binds a shortcut to new keys and persists the choice
+   * @throws Error if the keys are already used where this shortcut is active
+   */
+  rebind(id: string, keys: string): void {
+    const shortcut = this.shortcuts.get(id);
+    if (!shortcut) {
+      throw new Error(`Unknown shortcut: ${id}`);
+    }
+
+    const combo = ShortcutRegistry.normalize(keys);
+    if (!combo) {
+      throw new Error('Empty key combination');
+    }
+
+    const conflicts = this.findConflicts({ ...shortcut, keys: combo });
+    if (conflicts.length > 0) {
+      throw new Error(
+        `${ShortcutRegistry.format(combo)} is already used by "${conflicts[0].description}"`
+      );
+    }
+
+    shortcut.keys = combo;
+    if (combo === shortcut.defaultKeys) {
+      delete this.overrides[id];
+    } else {
+      this.overrides[id] = combo;
+    }
+
+    this.saveOverrides();
+    this.notify();
+  }
+
+  /**
+   * Restores default keys for one shortcut, or all of them
+   */
+  reset(id?: string): void {
+    const ids = id ? [id] : Object.keys(this.overrides);
+    ids.forEach(shortcutId => {
+      delete this.overrides[shortcutId];
+      const shortcut = this.shortcuts.get(shortcutId);
+      if (shortcut) shortcut.keys = shortcut.defaultKeys;
+    });
+
+    this.saveOverrides();
+    this.notify();
+  }
+
+  /**
+   * Returns key combinations bound more than once where both can be active
+   */
+  getConflicts(): ShortcutConflict[] {
+    const conflicts: ShortcutConflict[] = [];
+    const seen = new Set<string>();
+
+    this.shortcuts.forEach(shortcut => {
+      if (seen.has(shortcut.id)) return;
+      const others = this.findConflicts(shortcut);
+      if (others.length === 0) return;
+
+      const ids = [shortcut.id, ...others.map(other => other.id)];
+      ids.forEach(conflictId => seen.add(conflictId));
+      conflicts.push({ keys: shortcut.keys, ids });
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * Activates the modal scope until the returned function is called
+   */
+  pushModalScope(): () => void {
+    this.modalDepth++;
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+      this.modalDepth = Math.max(0, this.modalDepth - 1);
+    };
+  }
+
+  isModalActive(): boolean {
+    return this.modalDepth > 0;
+  }
+
+  /**
+   * Subscribes to registration and rebinding changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: () => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * Finds and runs the shortcut for a keydown event
+   * @private
+   */
+  private dispatch(e: KeyboardEvent): void {
+    const combo = ShortcutRegistry.fromEvent(e);
+    if (!combo) return;
+
+    const target = e.target instanceof Element ? e.target : null;
+    const isEditable =
+      !!target && (target.matches(EDITABLE_SELECTOR) || (target as HTMLElement).isContentEditable);
+
+    const shortcut = this.activeScopes(target)
+      .map(scope => this.findBinding(combo, scope))
+      .find((match): match is Shortcut => match !== undefined);
+
+    if (!shortcut) return;
+    if (isEditable && !shortcut.allowInInput) return;
+    if (e.repeat && !shortcut.allowRepeat) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      shortcut.handler(e);
+    } catch (error) {
+      console.error(`Error in shortcut handler for ${shortcut.id}:`, error);
+    }
+  }
+
+  /**
+   * Scopes that apply to an event target, most specific first
+   * @private
+   */
+  private activeScopes(target: Element | null): ShortcutScope[] {
+    if (this.modalDepth > 0) return ['modal'];
+
+    const scoped = target?.closest(`[${SCOPE_ATTRIBUTE}]`)?.getAttribute(SCOPE_ATTRIBUTE) as
+      | ShortcutScope
+      | null
+      | undefined;
+
+    return scoped && scoped !== 'global' ? [scoped, 'global'] : ['global'];
+  }
+
+  private findBinding(combo: string, scope: ShortcutScope): Shortcut | undefined {
+    for (const shortcut of this.shortcuts.values()) {
+      if (shortcut.scope === scope && shortcut.keys === combo) return shortcut;
+    }
+    return undefined;
+  }
+
+  /**
+   * Other shortcuts with the same keys that can be active at the same time
+   * @private
+   */
+  private findConflicts(shortcut: Shortcut): Shortcut[] {
+    return Array.from(this.shortcuts.values()).filter(other => {
+      if (other.id === shortcut.id || other.keys !== shortcut.keys) return false;
+      if (other.scope === shortcut.scope) return true;
+      if (other.scope === 'modal' || shortcut.scope === 'modal') return false;
+      return other.scope === 'global' || shortcut.scope === 'global';
+    });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('Error in shortcut registry listener:', error);
+      }
+    });
+  }
+
+  private loadOverrides(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (_error) {
+      return {};
+    }
+  }
+
+  private saveOverrides(): void {
+    try {
+      if (Object.keys(this.overrides).length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.overrides));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to persist shortcut bindings:', error);
+    }
+  }
+
+  /**
+   * Normalizes a key description such as "Shift+T", "Mod+k" or "?"
+   *
+   * Without Ctrl/Alt/Meta a single character is matched as typed, so "T"
+   * and "Shift+t" are the same binding. With Ctrl/Alt/Meta letters are
+   * lowercased and Shift stays explicit ("Ctrl+Shift+k").
+   */
+  static normalize(keys: string): string {
+    const trimmed = keys.trim();
+    if (!trimmed) return '';
+
+    let tokens: string[];
+    if (trimmed === '+') {
+      tokens = ['+'];
+    } else if (trimmed.endsWith('++')) {
+      tokens = [...trimmed.slice(0, -2).split('+'), '+'];
+    } else {
+      tokens = trimmed.split('+');
+    }
+
+    const key = tokens.pop() ?? '';
+    const modifiers = tokens.map(token => token.trim().toLowerCase());
+
+    return ShortcutRegistry.combine({
+      ctrl: modifiers.includes('ctrl') || modifiers.includes('control') || (modifiers.includes('mod') && !isMac()),
+      alt: modifiers.includes('alt') || modifiers.includes('option'),
+      meta: modifiers.includes('meta') || modifiers.includes('cmd') || (modifiers.includes('mod') && isMac()),
+      shift: modifiers.includes('shift'),
+      key: NAMED_KEYS[key.toLowerCase()] ?? key,
+    });
+  }
+
+  /**
+   * Builds the normalized combination for a keyboard event
+   */
+  static fromEvent(e: KeyboardEvent): string {
+    if (MODIFIER_KEYS.includes(e.key)) return '';
+
+    // Alt changes e.key on macOS (Alt+k = "˚"); fall back to the physical key
+    let key = e.key;
+    if (e.altKey && /^Key[A-Z]$/.test(e.code)) {
+      key = e.code.slice(3).toLowerCase();
+    }
+
+    return ShortcutRegistry.combine({
+      ctrl: e.ctrlKey,
+      alt: e.altKey,
+      meta: e.metaKey,
+      shift: e.shiftKey,
+      key,
+    });
+  }
+
+  /**
+   * Human-readable label for a normalized combination
+   */
+  static format(combo: string): string {
+    if (/^[A-Z]$/.test(combo)) return `Shift+${combo}`;
+    if (combo === ' ') return 'Space';
+    return combo.replace(/(^|\+) $/, '$1Space').replace('Meta+', isMac() ? '⌘' : 'Meta+');
+  }
+
+  private static combine(parts: { ctrl: boolean; alt: boolean; meta: boolean; shift: boolean; key: string }): string {
+    let { key, shift } = parts;
+    const hasCommandModifier = parts.ctrl || parts.alt || parts.meta;
+
+    if (key.length === 1) {
+      if (hasCommandModifier) {
+        key = key.toLowerCase();
+      } else {
+        if (shift) key = key.toUpperCase();
+        shift = false;
+      }
+    } else if (key.length > 1) {
+      key = key.charAt(0).toUpperCase() + key.slice(1);
+    }
+
+    return [
+      parts.ctrl ? 'Ctrl' : '',
+      parts.alt ? 'Alt' : '',
+      parts.meta ? 'Meta' : '',
+      shift ? 'Shift' : '',
+      key,
+    ]
+      .filter(Boolean)
+      .join('+');
+  }
+}
@@ -1,6 +1,21 @@
 /**
  * Enhanced terminal input handling for proper keyboard capture
  */
+import { shortcuts } from '../shortcuts';
+
+// Readline-style chords, registered in the terminal shortcut scope. Each
+// answers to Ctrl and Meta on every platform (Ctrl+A is still readline on
+// macOS), unless `modifiers` says otherwise.
+const TERMINAL_CHORDS: Array<{ key: string; description: string; modifiers?: string[] }> = [
+  { key: 'c', description: 'Interrupt' },
+  { key: 'a', description: 'Move to start of line' },
+  { key: 'e', description: 'Move to end of line' },
+  { key: 'u', description: 'Delete to start of line' },
+  // Readline's Ctrl+K; Cmd+K is left to the global command palette
+  { key: 'k', description: 'Delete to end of line', modifiers: ['Ctrl'] },
+  { key: 'l', description: 'Clear screen' },
+  { key: 'w', description: 'Delete previous word' },
+];
 
 export interface TerminalInputConfig {
   element: HTMLInputElement;
@@ -14,6 +29,7 @@ export class TerminalInputHandler {
   private terminalWrapper?: HTMLElement;
   private isComposing: boolean = false;
   private lastValue: string = '';
+  private unregisterShortcuts: Array<() => void> = [];
 
   constructor(config: TerminalInputConfig) {
     this.element = config.element;
@@ -21,9 +37,29 @@ export class TerminalInputHandler {
     this.terminalWrapper = config.terminalWrapper;
 
     this.attachEventListeners();
+    this.registerShortcuts();
     this.ensureFocus();
   }
 
+  private registerShortcuts(): void {
+    const scopeElement = this.terminalWrapper ?? this.element;
+    scopeElement.setAttribute('data-shortcut-scope', 'terminal');
+
+    this.unregisterShortcuts = TERMINAL_CHORDS.flatMap(({ key, description, modifiers = ['Ctrl', 'Meta'] }) =>
+      modifiers.map(modifier =>
+        shortcuts.register({
+          id: `terminal.${modifier.toLowerCase()}-${key}`,
+          keys: `${modifier}+${key}`,
+          description,
+          scope: 'terminal',
+          allowInInput: true,
+          allowRepeat: true,
+          handler: () => this.onKeyPress(`Control+${key}`),
+        })
+      )
+    );
+  }
+
   private attachEventListeners(): void {
     // Handle keydown for special keys
     this.element.addEventListener('keydown', (e: KeyboardEvent) => {
@@ -47,35 +83,7 @@ export class TerminalInputHandler {
         return;
       }
 
-      // Handle Ctrl/Cmd combinations
-      if (e.ctrlKey || e.metaKey) {
-        if (e.key === 'c') {
-          e.preventDefault();
-          this.onKeyPress('Control+c');
-        } else if (e.key === 'v') {
-          // Allow paste to go through
-          return;
-        } else if (e.key === 'a') {
-          e.preventDefault();
-          this.onKeyPress('Control+a');
-        } else if (e.key === 'e') {
-          e.preventDefault();
-          this.onKeyPress('Control+e');
-        } else if (e.key === 'u') {
-          e.preventDefault();
-          this.onKeyPress('Control+u');
-        } else if (e.key === 'k') {
-          e.preventDefault();
-          this.onKeyPress('Control+k');
-        } else if (e.key === 'l') {
-          e.preventDefault();
-          this.onKeyPress('Control+l');
-        } else if (e.key === 'w') {
-          e.preventDefault();
-          this.onKeyPress('Control+w');
-        }
-        return;
-      }
+      // Ctrl/Cmd chords are dispatched by the shortcut registry
     });
 
     // Handle regular character input
@@ -162,7 +170,8 @@ export class TerminalInputHandler {
   }
 
   public destroy(): void {
-    // Clean up event listeners if needed
+    this.unregisterShortcuts.forEach(unregister => unregister());
+    this.unregisterShortcuts = [];
     this.element.value = '';
   }
 }
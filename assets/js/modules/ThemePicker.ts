@@ -0,0 +1,222 @@
+/**
+ * Module for the keyboard-driven theme picker overlay
+ *
+ * Renders a listbox of themes. Moving through the list previews each theme
+ * live, Enter commits, Escape (or clicking outside) reverts to the theme
+ * that was active when the picker opened.
+ */
+
+export interface ThemePickerOption {
+  id: string;
+  label: string;
+}
+
+export interface ThemePickerOptions {
+  getOptions: () => ThemePickerOption[];
+  getActiveId: () => string;
+  onPreview: (id: string) => void;
+  onCommit: (id: string) => void;
+  onCancel: () => void;
+}
+
+export class ThemePicker {
+  private readonly options: ThemePickerOptions;
+  private overlay: HTMLDivElement | null = null;
+  private listbox: HTMLUListElement | null = null;
+  private items: ThemePickerOption[] = [];
+  private activeIndex = 0;
+  private previouslyFocused: HTMLElement | null = null;
+
+  constructor(options: ThemePickerOptions) {
+    this.options = options;
+  }
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Opens the picker with the active theme highlighted
+   */
+  open(): void {
+    if (this.overlay) return;
+
+    this.items = this.options.getOptions();
+    if (this.items.length === 0) return;
+
+    const activeId = this.options.getActiveId();
+    this.activeIndex = Math.max(0, this.items.findIndex(item => item.id === activeId));
+    this.previouslyFocused = document.activeElement as HTMLElement | null;
+
+    this.render();
+    this.listbox?.focus();
+  }
+
+  /**
+   * Commits the highlighted theme and closes the picker
+   */
+  commit(): void {
+    const item = this.items[this.activeIndex];
+    this.close();
+    if (item) this.options.onCommit(item.id);
+  }
+
+  /**
+   * Reverts the preview and closes the picker
+   */
+  cancel(): void {
+    if (!this.overlay) return;
+    this.close();
+    this.options.onCancel();
+  }
+
+  /**
+   * Builds the overlay markup and attaches listeners
+   * @private
+   */
+  private render(): void {
+    const overlay = document.createElement('div');
+    overlay.className = 'theme-picker-backdrop';
+    overlay.addEventListener('click', (e: MouseEvent) => {
+      if (e.target === overlay) this.cancel();
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'theme-picker';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-labelledby', 'theme-picker-title');
+
+    const title = document.createElement('div');
+    title.id = 'theme-picker-title';
+    title.className = 'theme-picker-title';
+    title.textContent = 'THEME';
+
+    const listbox = document.createElement('ul');
+    listbox.className = 'theme-picker-list';
+    listbox.setAttribute('role', 'listbox');
+    listbox.setAttribute('aria-labelledby', 'theme-picker-title');
+    listbox.tabIndex = 0;
+
+    this.items.forEach((item, index) => {
+      const option = document.createElement('li');
+      option.id = `theme-picker-option-${index}`;
+      option.className = 'theme-picker-option';
+      option.setAttribute('role', 'option');
+      option.textContent = item.label;
+
+      option.addEventListener('mousemove', () => {
+        if (index !== this.activeIndex) this.highlight(index);
+      });
+      option.addEventListener('click', () => {
+        this.highlight(index);
+        this.commit();
+      });
+
+      listbox.appendChild(option);
+    });
+
+    listbox.addEventListener('keydown', (e: KeyboardEvent) => this.handleKeyDown(e));
+
+    const hint = document.createElement('div');
+    hint.className = 'theme-picker-hint';
+    hint.setAttribute('aria-hidden', 'true');
+    hint.textContent = '↑↓ preview · Enter select · Esc cancel';
+
+    dialog.append(title, listbox, hint);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+
+    this.overlay = overlay;
+    this.listbox = listbox;
+    this.highlight(this.activeIndex, false);
+  }
+
+  /**
+   * Handles listbox navigation keys
+   * @private
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    const last = this.items.length - 1;
+    let next: number | null = null;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'j':
+        next = this.activeIndex >= last ? 0 : this.activeIndex + 1;
+        break;
+      case 'ArrowUp':
+      case 'k':
+        next = this.activeIndex <= 0 ? last : this.activeIndex - 1;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = last;
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        e.stopPropagation();
+        this.commit();
+        return;
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        this.cancel();
+        return;
+      case 'Tab':
+        // Keep focus inside the modal
+        e.preventDefault();
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+    this.highlight(next);
+  }
+
+  /**
+   * Marks an option active and previews its theme
+   * @private
+   */
+  private highlight(index: number, preview = true): void {
+    if (!this.listbox) return;
+
+    this.activeIndex = index;
+    const options = this.listbox.querySelectorAll<HTMLElement>('[role="option"]');
+    options.forEach((option, i) => {
+      const selected = i === index;
+      option.setAttribute('aria-selected', String(selected));
+      option.classList.toggle('active', selected);
+    });
+
+    const active = options[index];
+    if (active) {
+      this.listbox.setAttribute('aria-activedescendant', active.id);
+      active.scrollIntoView({ block: 'nearest' });
+    }
+
+    if (preview) {
+      this.options.onPreview(this.items[index].id);
+    }
+  }
+
+  /**
+   * Removes the overlay and restores focus
+   * @private
+   */
+  private close(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+    this.listbox = null;
+
+    if (this.previouslyFocused && document.contains(this.previouslyFocused)) {
+      this.previouslyFocused.focus();
+    }
+    this.previouslyFocused = null;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Module for registering, persisting and sharing color themes
+ *
+ * Built-in themes are plain classes defined in themes.css. User themes are
+ * sets of CSS custom-property values; the registry turns them into the same
+ * `.theme-*` class rules via an injected stylesheet, so applying any theme is
+ * still just a class swap on <html>.
+ */
+
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  variables?: Record<string, string>;
+  builtIn?: boolean;
+}
+
+interface ThemeExport {
+  version: number;
+  themes: ThemeDefinition[];
+}
+
+export const STORAGE_KEY = 'phx:theme:custom';
+const STYLE_ELEMENT_ID = 'user-themes';
+const EXPORT_VERSION = 1;
+
+const ID_PATTERN = /^theme-[a-z0-9-]+$/;
+const VARIABLE_PATTERN = /^--[a-zA-Z0-9-]+$/;
+const UNSAFE_VALUE_PATTERN = /[;{}<>]/;
+
+const BUILT_IN_THEMES: ThemeDefinition[] = [
+  { id: 'theme-synthwave84', name: 'Synthwave84', builtIn: true },
+  { id: 'theme-hotline', name: 'Hotline', builtIn: true },
+  { id: 'theme-matrix', name: 'Matrix', builtIn: true },
+  { id: 'theme-cyberpunk', name: 'Cyberpunk', builtIn: true },
+  { id: 'theme-phosphor', name: 'Phosphor', builtIn: true },
+  { id: 'theme-amber', name: 'Amber', builtIn: true },
+  { id: 'theme-high-contrast', name: 'High Contrast', builtIn: true },
+];
+
+export class ThemeRegistry {
+  private themes: Map<string, ThemeDefinition>;
+  private listeners: Set<() => void>;
+
+  constructor() {
+    this.themes = new Map();
+    this.listeners = new Set();
+
+    BUILT_IN_THEMES.forEach(theme => this.themes.set(theme.id, theme));
+    this.load();
+  }
+
+  /**
+   * Returns all themes in cycle order (built-in first, then user themes)
+   */
+  list(): ThemeDefinition[] {
+    return Array.from(this.themes.values());
+  }
+
+  /**
+   * Returns the class names of all themes in cycle order
+   */
+  ids(): string[] {
+    return Array.from(this.themes.keys());
+  }
+
+  has(id: string): boolean {
+    return this.themes.has(id);
+  }
+
+  get(id: string): ThemeDefinition | undefined {
+    return this.themes.get(id);
+  }
+
+  /**
+   * Registers (or replaces) a user theme and persists it
+   * @param theme - Theme definition with CSS custom-property values
+   * @returns The normalized theme definition
+   */
+  register(theme: ThemeDefinition): ThemeDefinition {
+    const normalized = ThemeRegistry.validate(theme);
+
+    const existing = this.themes.get(normalized.id);
+    if (existing?.builtIn) {
+      throw new Error(`Cannot replace built-in theme: ${normalized.id}`);
+    }
+
+    this.themes.set(normalized.id, normalized);
+    this.persist();
+    this.render();
+    this.notify();
+
+    return normalized;
+  }
+
+  /**
+   * Removes a user theme
+   * @param id - Theme class name
+   * @returns True if a theme was removed
+   */
+  unregister(id: string): boolean {
+    const theme = this.themes.get(id);
+    if (!theme || theme.builtIn) return false;
+
+    this.themes.delete(id);
+    this.persist();
+    this.render();
+    this.notify();
+
+    return true;
+  }
+
+  /**
+   * Serializes user themes as JSON
+   * @param ids - Optional subset of theme ids to export
+   */
+  export(ids?: string[]): string {
+    const themes = this.list()
+      .filter(theme => !theme.builtIn)
+      .filter(theme => !ids || ids.includes(theme.id))
+      .map(({ id, name, variables }) => ({ id, name, variables }));
+
+    const payload: ThemeExport = { version: EXPORT_VERSION, themes };
+    return JSON.stringify(payload, null, 2);
+  }
+
+  /**
+   * Imports themes from JSON produced by export()
+   * Accepts either the export envelope, an array, or a single theme object.
+   * @param json - Serialized themes
+   * @returns The imported theme definitions
+   */
+  import(json: string): ThemeDefinition[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid theme JSON: ${(error as Error).message}`);
+    }
+
+    let candidates: unknown[];
+    if (Array.isArray(parsed)) {
+      candidates = parsed;
+    } else if (parsed && typeof parsed === 'object' && Array.isArray((parsed as ThemeExport).themes)) {
+      candidates = (parsed as ThemeExport).themes;
+    } else {
+      candidates = [parsed];
+    }
+
+    // Validate everything before touching the registry so a bad entry
+    // doesn't leave a partial import behind
+    const themes = candidates.map(candidate => ThemeRegistry.validate(candidate as ThemeDefinition));
+    themes.forEach(theme => {
+      if (this.themes.get(theme.id)?.builtIn) {
+        throw new Error(`Cannot replace built-in theme: ${theme.id}`);
+      }
+    });
+
+    themes.forEach(theme => this.themes.set(theme.id, theme));
+    this.persist();
+    this.render();
+    this.notify();
+
+    return themes;
+  }
+
+  /**
+   * Re-reads user themes from localStorage (e.g. after another tab changed them)
+   */
+  reload(): void {
+    this.list()
+      .filter(theme => !theme.builtIn)
+      .forEach(theme => this.themes.delete(theme.id));
+
+    this.load();
+    this.render();
+    this.notify();
+  }
+
+  /**
+   * Subscribes to registry changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: () => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * Restores user themes from localStorage
+   * @private
+   */
+  private load(): void {
+    let stored: string | null = null;
+    try {
+      stored = localStorage.getItem(STORAGE_KEY);
+    } catch (_error) {
+      return;
+    }
+    if (!stored) return;
+
+    try {
+      const themes = JSON.parse(stored) as ThemeDefinition[];
+      themes.forEach(theme => {
+        const normalized = ThemeRegistry.validate(theme);
+        if (!this.themes.get(normalized.id)?.builtIn) {
+          this.themes.set(normalized.id, normalized);
+        }
+      });
+      this.render();
+    } catch (error) {
+      console.warn('Ignoring invalid stored themes:', error);
+    }
+  }
+
+  /**
+   * Writes user themes to localStorage
+   * @private
+   */
+  private persist(): void {
+    const custom = this.list()
+      .filter(theme => !theme.builtIn)
+      .map(({ id, name, variables }) => ({ id, name, variables }));
+
+    try {
+      if (custom.length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to persist custom themes:', error);
+    }
+  }
+
+  /**
+   * Writes `.theme-*` rules for user themes into an injected stylesheet
+   * @private
+   */
+  private render(): void {
+    let style = document.getElementById(STYLE_ELEMENT_ID) as HTMLStyleElement | null;
+    if (!style) {
+      style = document.createElement('style');
+      style.id = STYLE_ELEMENT_ID;
+      document.head.appendChild(style);
+    }
+
+    style.textContent = this.list()
+      .filter(theme => !theme.builtIn && theme.variables)
+      .map(theme => {
+        const declarations = Object.entries(theme.variables!)
+          .map(([name, value]) => `  ${name}: ${value};`)
+          .join('\n');
+        return `.${theme.id} {\n${declarations}\n}`;
+      })
+      .join('\n\n');
+  }
+
+  private notify(): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('Error in theme registry listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Validates and normalizes a theme definition
+   * @private
+   */
+  private static validate(theme: ThemeDefinition): ThemeDefinition {
+    if (!theme || typeof theme !== 'object') {
+      throw new Error('Theme must be an object');
+    }
+
+    const id = String(theme.id ?? '').trim();
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid theme id "${id}": expected "theme-" followed by lowercase letters, digits or dashes`);
+    }
+
+    const name = String(theme.name ?? '').trim();
+    if (!name) {
+      throw new Error(`Theme ${id} is missing a name`);
+    }
+
+    if (!theme.variables || typeof theme.variables !== 'object') {
+      throw new Error(`Theme ${id} must define CSS custom-property values`);
+    }
+
+    const variables: Record<string, string> = {};
+    Object.entries(theme.variables).forEach(([key, value]) => {
+      if (!VARIABLE_PATTERN.test(key)) {
+        throw new Error(`Theme ${id}: "${key}" is not a CSS custom property`);
+      }
+      const stringValue = String(value).trim();
+      if (!stringValue || UNSAFE_VALUE_PATTERN.test(stringValue)) {
+        throw new Error(`Theme ${id}: invalid value for ${key}`);
+      }
+      variables[key] = stringValue;
+    });
+
+    return { id, name, variables };
+  }
+}
@@ -1,6 +1,8 @@
 /**
  * Touch gesture support for terminal navigation
  */
+import { MonospaceGrid } from './MonospaceGrid';
+import { UnicodeWidth } from './UnicodeWidth';
 
 export interface TouchPoint {
   x: number;
@@ -285,22 +287,51 @@ export function getCellFromCoordinates(x: number, y: number, container: HTMLElem
   const relativeX = x - rect.left;
   const relativeY = y - rect.top;
 
-  // Get computed styles
-  const style = window.getComputedStyle(container);
-  const fontSize = parseFloat(style.fontSize);
-  const lineHeight = parseFloat(style.lineHeight) || fontSize * 1.5;
-
-  // Calculate cell dimensions (1ch width)
-  const cellWidth = fontSize * 0.6; // Approximate ch width
-  const cellHeight = lineHeight;
+  // Measured cell size of the terminal's grid (MobileTerminal registers one
+  // for its wrapper, measured from the wrapper's own font)
+  const { width: cellWidth, height: cellHeight } = MonospaceGrid.metricsFor(container);
+  if (!cellWidth || !cellHeight) return null;
 
   const col = Math.floor(relativeX / cellWidth);
   const row = Math.floor(relativeY / cellHeight);
 
   // Terminal is 80x24
-  if (col >= 0 && col < 80 && row >= 0 && row < 24) {
-    return { row, col };
+  if (col < 0 || col >= 80 || row < 0 || row >= 24) {
+    return null;
+  }
+
+  // A tap on the right half of a wide character (CJK, emoji) selects it
+  const line = lineElementAt(x, y, container);
+  if (!line) return { row, col };
+
+  // Column within the line's text, counting the rows it wrapped onto
+  const lineRect = line.getBoundingClientRect();
+  const lineCols = Math.max(1, Math.floor(lineRect.width / cellWidth));
+  const lineCol = Math.floor((x - lineRect.left) / cellWidth);
+  const wrappedRows = Math.floor((y - lineRect.top) / cellHeight);
+  const textCol = wrappedRows * lineCols + lineCol;
+
+  const grapheme = UnicodeWidth.locateColumn(line.textContent ?? '', textCol);
+  return { row, col: grapheme ? col - (textCol - grapheme.column) : col };
+}
+
+/**
+ * Element holding the line under a point: the outermost element above the
+ * tapped one whose text has no line break, below the container
+ */
+function lineElementAt(x: number, y: number, container: HTMLElement): HTMLElement | null {
+  let line: HTMLElement | null = null;
+  let element = document.elementFromPoint(x, y);
+
+  while (
+    element instanceof HTMLElement &&
+    element !== container &&
+    container.contains(element) &&
+    !(element.textContent ?? '').includes('\n')
+  ) {
+    line = element;
+    element = element.parentElement;
   }
 
-  return null;
+  return line;
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+/**
+ * Module for terminal column widths of Unicode text (wcwidth-style)
+ *
+ * Widths are counted per grapheme cluster, the unit a cursor moves over:
+ * - 0 columns: combining marks, zero-width and format characters, controls
+ * - 2 columns: East Asian Wide / Fullwidth characters and emoji presentation
+ *   (including ZWJ sequences, keycaps, flags and text symbols with U+FE0F)
+ * - 1 column:  everything else; East Asian Ambiguous counts as narrow
+ *
+ * Clusters come from Intl.Segmenter where available, with a fallback that
+ * joins marks, Hangul jamo, joiners, variation selectors, skin tones, tags
+ * and flag pairs.
+ */
+
+interface Segmenter {
+  segment(text: string): Iterable<{ segment: string }>;
+}
+
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' }) => Segmenter;
+
+// East Asian Wide and Fullwidth blocks not covered by Emoji_Presentation
+const WIDE_RANGES: ReadonlyArray<readonly [number, number]> = [
+  [0x1100, 0x115f],   // Hangul Jamo initial consonants
+  [0x2329, 0x232a],   // angle brackets
+  [0x2e80, 0x303e],   // CJK radicals, Kangxi, CJK symbols and punctuation
+  [0x3041, 0x33ff],   // Hiragana, Katakana, Bopomofo, CJK compatibility
+  [0x3400, 0x4dbf],   // CJK extension A
+  [0x4e00, 0x9fff],   // CJK unified ideographs
+  [0xa000, 0xa4cf],   // Yi
+  [0xa960, 0xa97f],   // Hangul Jamo extended A
+  [0xac00, 0xd7a3],   // Hangul syllables
+  [0xf900, 0xfaff],   // CJK compatibility ideographs
+  [0xfe10, 0xfe19],   // vertical forms
+  [0xfe30, 0xfe6f],   // CJK compatibility forms, small form variants
+  [0xff00, 0xff60],   // fullwidth forms
+  [0xffe0, 0xffe6],   // fullwidth signs
+  [0x16fe0, 0x16fe4], // ideographic symbols
+  [0x17000, 0x18aff], // Tangut
+  [0x1b000, 0x1b2ff], // Kana supplement and extensions
+  [0x1f200, 0x1f2ff], // enclosed ideographic supplement
+  [0x20000, 0x2fffd], // CJK extensions B-F
+  [0x30000, 0x3fffd]  // CJK extension G and later
+];
+
+// Hangul medial vowels and finals combine with the initial consonant
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}\u{1160}-\u{11FF}]$/u;
+const EMOJI_PRESENTATION = /\p{Emoji_Presentation}/u;
+const EMOJI = /\p{Emoji}/u;
+// Code points that attach to the preceding cluster in the fallback segmenter
+const EXTEND = /^[\p{M}\u{1160}-\u{11FF}\u{200C}\u{200D}\u{FE00}-\u{FE0F}\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]$/u;
+const REGIONAL_INDICATOR = /^[\u{1F1E6}-\u{1F1FF}]$/u;
+
+const ZWJ = '\u200D';
+const EMOJI_VARIATION = '\uFE0F';
+const KEYCAP = '\u20E3';
+
+export class UnicodeWidth {
+  private static segmenter: Segmenter | null | undefined;
+
+  /**
+   * Columns one code point occupies on its own
+   */
+  static codePointWidth(codePoint: number): 0 | 1 | 2 {
+    const char = String.fromCodePoint(codePoint);
+    if (ZERO_WIDTH.test(char)) return 0;
+    if (EMOJI_PRESENTATION.test(char)) return 2;
+    return this.isWide(codePoint) ? 2 : 1;
+  }
+
+  /**
+   * Columns one grapheme cluster occupies
+   */
+  static graphemeWidth(grapheme: string): 0 | 1 | 2 {
+    const codePoints = Array.from(grapheme);
+    if (codePoints.length === 0) return 0;
+
+    // Emoji sequences render as one wide glyph
+    if (codePoints.length > 1 && EMOJI.test(codePoints[0])) {
+      if (grapheme.includes(EMOJI_VARIATION) || grapheme.includes(ZWJ) || grapheme.includes(KEYCAP)) return 2;
+      if (REGIONAL_INDICATOR.test(codePoints[0]) && REGIONAL_INDICATOR.test(codePoints[1])) return 2;
+    }
+
+    for (const char of codePoints) {
+      const width = this.codePointWidth(char.codePointAt(0)!);
+      if (width > 0) return width;
+    }
+    return 0;
+  }
+
+  /**
+   * Splits text into grapheme clusters
+   */
+  static graphemes(text: string): string[] {
+    const segmenter = this.getSegmenter();
+    if (segmenter) {
+      return Array.from(segmenter.segment(text), ({ segment }) => segment);
+    }
+
+    const clusters: string[] = [];
+    let previous = '';
+    for (const char of text) {
+      const last = clusters.length - 1;
+      const joins = last >= 0 && (
+        EXTEND.test(char) ||
+        previous === ZWJ ||
+        char === KEYCAP ||
+        (REGIONAL_INDICATOR.test(char) && this.endsWithUnpairedFlag(clusters[last]))
+      );
+
+      if (joins) {
+        clusters[last] += char;
+      } else {
+        clusters.push(char);
+      }
+      previous = char;
+    }
+    return clusters;
+  }
+
+  /**
+   * Columns a string occupies; the first line only if it contains newlines
+   */
+  static stringWidth(text: string): number {
+    const line = text.split('\n', 1)[0];
+    return this.graphemes(line).reduce((total, grapheme) => total + this.graphemeWidth(grapheme), 0);
+  }
+
+  /**
+   * Finds the grapheme under a column of a line
+   * @param line - Text of one line
+   * @param column - Zero-based column
+   * @returns The grapheme's string offset and its first column, or null past the end
+   */
+  static locateColumn(line: string, column: number): { index: number; column: number; width: number } | null {
+    let offset = 0;
+    let start = 0;
+
+    for (const grapheme of this.graphemes(line)) {
+      const width = this.graphemeWidth(grapheme);
+      if (width > 0 && column < start + width) {
+        return { index: offset, column: start, width };
+      }
+      offset += grapheme.length;
+      start += width;
+    }
+
+    return null;
+  }
+
+  /**
+   * Column at which a string offset of a line is drawn
+   */
+  static columnOf(line: string, index: number): number {
+    return this.stringWidth(line.slice(0, index));
+  }
+
+  private static isWide(codePoint: number): boolean {
+    let low = 0;
+    let high = WIDE_RANGES.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const [start, end] = WIDE_RANGES[mid];
+      if (codePoint < start) {
+        high = mid - 1;
+      } else if (codePoint > end) {
+        low = mid + 1;
+      } else {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private static endsWithUnpairedFlag(cluster: string): boolean {
+    const codePoints = Array.from(cluster);
+    return codePoints.length === 1 && REGIONAL_INDICATOR.test(codePoints[0]);
+  }
+
+  private static getSegmenter(): Segmenter | null {
+    if (this.segmenter === undefined) {
+      const Segmenter = (Intl as typeof Intl & { Segmenter?: SegmenterConstructor }).Segmenter;
+      this.segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+    }
+    return this.segmenter;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Page-loading indicator for live navigation and form submits
+ * Theme-colored topbar by default; the ASCII style is a palette toggle
+ */
+
+import topbar from "../vendor/topbar";
+import { PageProgress, TopbarLike } from "./modules/PageProgress";
+import { commandPalette } from "./command_palette";
+import { eventBus } from "./event_bus";
+
+declare global {
+  interface Window {
+    pageProgress?: PageProgress;
+  }
+}
+
+export const pageProgress = new PageProgress(topbar as TopbarLike, eventBus);
+pageProgress.start();
+
+commandPalette.register({
+  id: "progress.style",
+  title: "Toggle ASCII loading bar",
+  keywords: ["progress", "topbar", "terminal"],
+  run: () => pageProgress.setStyle(pageProgress.getStyle() === "ascii" ? "bar" : "ascii"),
+});
+
+window.pageProgress = pageProgress;
@@ -0,0 +1,29 @@
+/**
+ * Site-wide keyboard shortcut registry and "?" help overlay
+ * Other modules register their bindings here instead of adding keydown listeners
+ */
+
+import { ShortcutRegistry } from "./modules/ShortcutRegistry";
+import { ShortcutHelp } from "./modules/ShortcutHelp";
+
+declare global {
+  interface Window {
+    shortcuts?: ShortcutRegistry;
+  }
+}
+
+export const shortcuts = new ShortcutRegistry();
+
+export const shortcutHelp = new ShortcutHelp(shortcuts);
+
+shortcuts.register({
+  id: "help",
+  keys: "?",
+  description: "Show keyboard shortcuts",
+  handler: () => shortcutHelp.toggle(),
+});
+
+shortcuts.start();
+
+// Exposed for code outside this bundle (Astro components) and the console
+window.shortcuts = shortcuts;
@@ -3,29 +3,43 @@
  * Extracted from root.html.heex for better caching
  */
 
-const themes = [
-  "theme-synthwave84",
-  "theme-hotline",
-  "theme-matrix",
-  "theme-cyberpunk",
-  "theme-phosphor",
-  "theme-amber",
-  "theme-high-contrast",
-];
-
-const themeNames = [
-  "Synthwave84",
-  "Hotline",
-  "Matrix",
-  "Cyberpunk",
-  "Phosphor",
-  "Amber",
-  "High Contrast",
+import {
+  ThemeDefinition,
+  ThemeRegistry,
+  STORAGE_KEY as CUSTOM_THEMES_KEY,
+} from "./modules/ThemeRegistry";
+import { ThemePicker } from "./modules/ThemePicker";
+import { MusicPlayer } from "./modules/MusicPlayer";
+import { shortcuts } from "./shortcuts";
+import { eventBus } from "./event_bus";
+
+const themeRegistry = new ThemeRegistry();
+const musicPlayerWidget = new MusicPlayer(eventBus);
+
+const DEFAULT_THEME = "theme-high-contrast";
+
+// Stored in phx:theme when the theme follows OS preferences
+const AUTO_THEME = "auto";
+
+// Set when phx:theme holds a theme the user picked; before auto mode every
+// first visit stored DEFAULT_THEME, which isn't a choice
+const EXPLICIT_THEME_KEY = "phx:theme-explicit";
+
+// First matching rule wins; DEFAULT_THEME applies when none match
+const AUTO_THEME_RULES = [
+  { query: "(forced-colors: active)", theme: "theme-high-contrast" },
+  { query: "(prefers-contrast: more)", theme: "theme-high-contrast" },
+  { query: "(prefers-color-scheme: light)", theme: "theme-high-contrast" },
+  { query: "(prefers-color-scheme: dark)", theme: "theme-phosphor" },
 ];
 
 let currentThemeIndex = 0;
+let autoThemeMode = false;
 let themeIndicatorTimeout: ReturnType<typeof setTimeout> | null = null;
 
+// True while applying another tab's custom themes, which mustn't be written back
+let syncingCustomThemes = false;
+
 /**
  * Show theme name indicator briefly
  */
@@ -49,6 +63,7 @@ function showThemeIndicator(themeName: string): void {
  * Get current theme index from CSS classes on html element
  */
 function getCurrentThemeIndex(): number {
+  const themes = themeRegistry.ids();
   const classList = document.documentElement.classList;
   for (let i = 0; i < themes.length; i++) {
     if (classList.contains(themes[i])) {
@@ -58,17 +73,146 @@ function getCurrentThemeIndex(): number {
   return 0;
 }
 
+/**
+ * Swap the theme class on the html element
+ */
+function setThemeClass(themeId: string): void {
+  const themes = themeRegistry.ids();
+  if (!themes.includes(themeId)) return;
+
+  themes.forEach((t) => document.documentElement.classList.remove(t));
+  document.documentElement.classList.add(themeId);
+  currentThemeIndex = themes.indexOf(themeId);
+  eventBus.emit("theme:change", { id: themeId });
+}
+
+/**
+ * Apply a theme explicitly chosen by the user (leaves auto mode)
+ */
+function applyTheme(themeId: string): void {
+  if (!themeRegistry.has(themeId)) return;
+
+  autoThemeMode = false;
+  setThemeClass(themeId);
+  localStorage.setItem(EXPLICIT_THEME_KEY, "true");
+  localStorage.setItem("phx:theme", themeId);
+}
+
+/**
+ * Pick a theme from forced-colors, prefers-contrast and prefers-color-scheme
+ */
+function resolveAutoTheme(): string {
+  if (typeof window.matchMedia !== "function") return DEFAULT_THEME;
+
+  const rule = AUTO_THEME_RULES.find(
+    (r) => themeRegistry.has(r.theme) && window.matchMedia(r.query).matches
+  );
+  return rule ? rule.theme : DEFAULT_THEME;
+}
+
+/**
+ * Follow OS preferences until the user picks a theme explicitly
+ */
+function enableAutoTheme(persist = true): void {
+  autoThemeMode = true;
+  setThemeClass(resolveAutoTheme());
+  if (persist) {
+    localStorage.removeItem(EXPLICIT_THEME_KEY);
+    localStorage.setItem("phx:theme", AUTO_THEME);
+  }
+}
+
+/**
+ * Re-resolve the auto theme when an OS preference changes
+ */
+function handleColorSchemeChange(): void {
+  if (!autoThemeMode) return;
+
+  const themeId = resolveAutoTheme();
+  if (document.documentElement.classList.contains(themeId)) return;
+
+  setThemeClass(themeId);
+  showThemeIndicator(getThemeLabel());
+}
+
+/**
+ * Listen for live changes to the media queries used by auto mode
+ */
+function watchColorSchemePreferences(): void {
+  if (typeof window.matchMedia !== "function") return;
+
+  AUTO_THEME_RULES.forEach(({ query }) => {
+    const mql = window.matchMedia(query);
+    if (typeof mql.addEventListener === "function") {
+      mql.addEventListener("change", handleColorSchemeChange);
+    }
+  });
+}
+
+/**
+ * Human-readable name of the active theme, e.g. "Auto (Phosphor)"
+ */
+function getThemeLabel(): string {
+  const theme = themeRegistry.list()[currentThemeIndex];
+  const name = theme ? theme.name : "";
+  return autoThemeMode ? `Auto (${name})` : name;
+}
+
 /**
  * Cycle to next theme
  */
 function cycleTheme(): void {
-  currentThemeIndex = (currentThemeIndex + 1) % themes.length;
-  const newTheme = themes[currentThemeIndex];
+  const themes = themeRegistry.list();
+  const next = themes[(currentThemeIndex + 1) % themes.length];
 
-  themes.forEach((t) => document.documentElement.classList.remove(t));
-  document.documentElement.classList.add(newTheme);
-  localStorage.setItem("phx:theme", newTheme);
-  showThemeIndicator(themeNames[currentThemeIndex]);
+  applyTheme(next.id);
+  showThemeIndicator(getThemeLabel());
+}
+
+/**
+ * Theme picker overlay: live preview on highlight, revert on cancel
+ */
+let themeBeforePicker: string | null = null;
+let releasePickerScope: (() => void) | null = null;
+
+function closeThemePickerScope(): void {
+  releasePickerScope?.();
+  releasePickerScope = null;
+}
+
+const themePicker = new ThemePicker({
+  getOptions: () => [
+    { id: AUTO_THEME, label: `Auto (${themeRegistry.get(resolveAutoTheme())?.name ?? ""})` },
+    ...themeRegistry.list().map((t) => ({ id: t.id, label: t.name })),
+  ],
+  getActiveId: () =>
+    autoThemeMode ? AUTO_THEME : themeRegistry.ids()[currentThemeIndex],
+  onPreview: (id) => {
+    setThemeClass(id === AUTO_THEME ? resolveAutoTheme() : id);
+  },
+  onCommit: (id) => {
+    closeThemePickerScope();
+    themeBeforePicker = null;
+    if (id === AUTO_THEME) {
+      enableAutoTheme();
+    } else {
+      applyTheme(id);
+    }
+    showThemeIndicator(getThemeLabel());
+  },
+  onCancel: () => {
+    closeThemePickerScope();
+    if (themeBeforePicker) setThemeClass(themeBeforePicker);
+    themeBeforePicker = null;
+  },
+});
+
+function openThemePicker(): void {
+  if (themePicker.isOpen()) return;
+  themeBeforePicker = themeRegistry.ids()[currentThemeIndex];
+  releasePickerScope = shortcuts.pushModalScope();
+  themePicker.open();
+  if (!themePicker.isOpen()) closeThemePickerScope();
 }
 
 /**
@@ -76,15 +220,36 @@ function cycleTheme(): void {
  */
 function initializeTheme(): void {
   const savedTheme = localStorage.getItem("phx:theme");
-  if (savedTheme && themes.includes(savedTheme)) {
-    themes.forEach((t) => document.documentElement.classList.remove(t));
-    document.documentElement.classList.add(savedTheme);
-    currentThemeIndex = themes.indexOf(savedTheme);
+  const explicit =
+    savedTheme !== DEFAULT_THEME ||
+    localStorage.getItem(EXPLICIT_THEME_KEY) === "true";
+
+  if (savedTheme && explicit && themeRegistry.has(savedTheme)) {
+    autoThemeMode = false;
+    setThemeClass(savedTheme);
   } else {
-    // Set default theme if none saved (High Contrast - black and white)
-    document.documentElement.classList.add(themes[6]);
-    localStorage.setItem("phx:theme", themes[6]);
-    currentThemeIndex = 6;
+    // No explicit choice yet (or the old first-visit default): follow OS preferences
+    enableAutoTheme();
+  }
+}
+
+/**
+ * Keep the active theme valid when user themes are added or removed
+ */
+function handleRegistryChange(): void {
+  const active = themeRegistry.ids().find((t) =>
+    document.documentElement.classList.contains(t)
+  );
+
+  if (active) {
+    currentThemeIndex = getCurrentThemeIndex();
+  } else {
+    // Active user theme was unregistered; drop its class and fall back
+    const stale = Array.from(document.documentElement.classList).filter((c) =>
+      c.startsWith("theme-")
+    );
+    stale.forEach((c) => document.documentElement.classList.remove(c));
+    enableAutoTheme(!syncingCustomThemes);
   }
 }
 
@@ -111,16 +276,56 @@ function toggleDebugMode(): void {
 }
 
 /**
- * Toggle music player expanded/minimized state
+ * Apply theme, debug mode and custom theme changes made in other tabs.
+ * The storage event only fires in tabs other than the one that wrote the
+ * key; nothing here writes back to localStorage, or every open tab would
+ * answer every change with one of its own.
  */
-function toggleMusicPlayer(): void {
-  const musicPlayer = document.getElementById("music-player-widget");
-  if (musicPlayer) {
-    musicPlayer.classList.toggle("music-player-minimized");
-    musicPlayer.classList.toggle("music-player-expanded");
+function handleStorageChange(e: StorageEvent): void {
+  // localStorage.clear() in another tab reports a null key
+  if (e.key === null) {
+    enableAutoTheme(false);
+    applyDebugMode();
+    return;
+  }
+
+  switch (e.key) {
+    case "phx:theme":
+      if (e.newValue && themeRegistry.has(e.newValue)) {
+        autoThemeMode = false;
+        setThemeClass(e.newValue);
+      } else {
+        enableAutoTheme(false);
+      }
+      if (themePicker.isOpen()) {
+        themeBeforePicker = themeRegistry.ids()[currentThemeIndex];
+      }
+      showThemeIndicator(getThemeLabel());
+      break;
+
+    case "phx:debug":
+      applyDebugMode();
+      break;
+
+    case CUSTOM_THEMES_KEY:
+      // Falling back to auto here was already persisted by the writing tab
+      syncingCustomThemes = true;
+      try {
+        themeRegistry.reload();
+      } finally {
+        syncingCustomThemes = false;
+      }
+      break;
   }
 }
 
+/**
+ * Toggle music player expanded/minimized state (persisted)
+ */
+function toggleMusicPlayer(): void {
+  musicPlayerWidget.toggle();
+}
+
 /**
  * Initialize all UI controls on DOMContentLoaded
  */
@@ -136,9 +341,14 @@ function initializeControls(): void {
   const themeToggle = document.getElementById("theme-toggle");
   const musicToggleDesktop = document.getElementById("music-toggle-desktop");
 
+  // Say which theme auto mode resolved to
+  if (autoThemeMode) {
+    showThemeIndicator(getThemeLabel());
+  }
+
   // Theme toggle button click handler
   if (themeToggle) {
-    themeToggle.addEventListener("click", cycleTheme);
+    themeToggle.addEventListener("click", openThemePicker);
   }
 
   // Open hamburger menu
@@ -167,8 +377,8 @@ function initializeControls(): void {
   // Theme toggle from menu
   if (menuThemeToggle && hamburgerMenu) {
     menuThemeToggle.addEventListener("click", () => {
-      cycleTheme();
       hamburgerMenu.classList.remove("menu-open");
+      openThemePicker();
     });
   }
 
@@ -185,6 +395,11 @@ function initializeControls(): void {
     });
   }
 
+  // Restore the music player's saved state and add its mini controls
+  if (musicPlayer) {
+    musicPlayerWidget.attach(musicPlayer);
+  }
+
   // Music player minimize/maximize toggle (desktop button)
   if (musicToggleDesktop && musicPlayer) {
     musicToggleDesktop.addEventListener("click", toggleMusicPlayer);
@@ -201,50 +416,92 @@ function initializeControls(): void {
 }
 
 /**
- * Set up keyboard shortcuts
+ * Register theme and debug shortcuts
  */
 function initializeKeyboardShortcuts(): void {
   let lastThemeChange = 0;
   const themeChangeDelay = 100;
 
-  document.addEventListener(
-    "keydown",
-    (e: KeyboardEvent) => {
-      const isRegularInput =
-        (e.target as HTMLElement).matches("input, textarea, select") &&
-        (e.target as HTMLElement).id !== "terminal-input";
-
-      // Uppercase 'T' for theme toggle
-      if (e.key === "T" && !isRegularInput && !e.repeat) {
-        const now = Date.now();
-        if (now - lastThemeChange >= themeChangeDelay) {
-          lastThemeChange = now;
-          e.preventDefault();
-          e.stopPropagation();
-          cycleTheme();
-        }
-      }
-
-      // Uppercase 'D' for debug toggle
-      if (e.key === "D" && !isRegularInput && !e.repeat) {
-        e.preventDefault();
-        e.stopPropagation();
-        toggleDebugMode();
+  shortcuts.register({
+    id: "theme.pick",
+    keys: "Shift+T",
+    description: "Choose theme",
+    handler: () => {
+      const now = Date.now();
+      if (now - lastThemeChange >= themeChangeDelay) {
+        lastThemeChange = now;
+        openThemePicker();
       }
     },
-    true
-  );
+  });
+
+  shortcuts.register({
+    id: "debug.toggle",
+    keys: "Shift+D",
+    description: "Toggle debug mode",
+    handler: toggleDebugMode,
+  });
 }
 
 // Initialize theme immediately (before DOMContentLoaded)
 initializeTheme();
+watchColorSchemePreferences();
+themeRegistry.onChange(handleRegistryChange);
 applyDebugMode();
 
 // Initialize controls after DOM is ready
 document.addEventListener("DOMContentLoaded", initializeControls);
 
+// Keep theme and debug mode in sync across open tabs
+window.addEventListener("storage", handleStorageChange);
+
 // Reapply debug mode after LiveView navigation
 window.addEventListener("phx:page-loading-stop", applyDebugMode);
 
 // Set up keyboard shortcuts
 initializeKeyboardShortcuts();
+
+// Runtime theme API (console, hooks, other scripts)
+declare global {
+  interface Window {
+    themes?: {
+      list: () => ThemeDefinition[];
+      register: (theme: ThemeDefinition) => ThemeDefinition;
+      unregister: (id: string) => boolean;
+      apply: (id: string) => void;
+      auto: () => void;
+      pick: () => void;
+      export: (ids?: string[]) => string;
+      import: (json: string) => ThemeDefinition[];
+    };
+  }
+}
+
+window.themes = {
+  list: () => themeRegistry.list(),
+  register: (theme) => themeRegistry.register(theme),
+  unregister: (id) => themeRegistry.unregister(id),
+  apply: (id) => {
+    const theme = themeRegistry.get(id);
+    if (!theme) throw new Error(`Unknown theme: ${id}`);
+    applyTheme(theme.id);
+    showThemeIndicator(getThemeLabel());
+  },
+  auto: () => {
+    enableAutoTheme();
+    showThemeIndicator(getThemeLabel());
+  },
+  pick: openThemePicker,
+  export: (ids) => themeRegistry.export(ids),
+  import: (json) => themeRegistry.import(json),
+};
+
+export {
+  themeRegistry,
+  applyTheme,
+  enableAutoTheme,
+  cycleTheme,
+  openThemePicker,
+  toggleDebugMode,
+  toggleMusicPlayer,
+};
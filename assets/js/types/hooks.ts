@@ -1,11 +1,26 @@
 /**
  * Type definitions for Phoenix LiveView hooks
  */
+import type { EventEmitterLike } from '../modules/EventManager';
 
 export interface PhoenixHookElement extends HTMLElement {
   phxHookId?: string;
 }
 
+// Opaque reference returned by handleEvent, passed back to removeHandleEvent
+export type HandleEventRef = object;
+
+export type ReplyCallback = (reply: any, ref: number) => void;
+
+/**
+ * LiveView 1.1 pushEvent: void with a reply callback, otherwise a promise of
+ * the reply that rejects when the push fails (including while disconnected)
+ */
+export interface PushEvent {
+  (event: string, payload: any, onReply: ReplyCallback): void;
+  (event: string, payload?: any): Promise<any>;
+}
+
 export interface PhoenixLiveViewHook {
   el: PhoenixHookElement;
   viewName?: string;
@@ -19,14 +34,65 @@ export interface PhoenixLiveViewHook {
   reconnected?: () => void;
 
   // Phoenix LiveView methods
-  pushEvent?: (event: string, payload?: any, callback?: (reply: any, ref: number) => void) => number;
+  liveSocket?: { isConnected(): boolean };
+  pushEvent?: PushEvent;
   pushEventTo?: (selector: string, event: string, payload?: any, callback?: (reply: any, ref: number) => void) => void;
-  handleEvent?: (event: string, callback: (payload: any) => void) => void;
-  removeHandleEvent?: (event: string) => void;
+  handleEvent?: (event: string, callback: (payload: any) => void) => HandleEventRef;
+  removeHandleEvent?: (ref: HandleEventRef) => void;
   upload?: (name: string, files: File[]) => void;
   uploadTo?: (selector: string, name: string, files: File[]) => void;
 }
 
+/**
+ * Resources owned by a mounted hook, released when it is destroyed
+ */
+export interface HookScope {
+  listen<K extends keyof WindowEventMap>(
+    target: Window,
+    event: K,
+    handler: (e: WindowEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): () => void;
+  listen<K extends keyof DocumentEventMap>(
+    target: Document,
+    event: K,
+    handler: (e: DocumentEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): () => void;
+  listen<K extends keyof HTMLElementEventMap>(
+    target: HTMLElement,
+    event: K,
+    handler: (e: HTMLElementEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): () => void;
+  listen(target: EventTarget, event: string, handler: EventListener, options?: AddEventListenerOptions): () => void;
+  listen(target: EventEmitterLike, event: string, handler: (...args: any[]) => void): () => void;
+  handleEvent<T = any>(event: string, callback: (payload: T) => void): void;
+  setTimeout(callback: () => void, ms: number): number;
+  setInterval(callback: () => void, ms: number): number;
+  requestAnimationFrame(callback: FrameRequestCallback): number;
+  observe<T extends { disconnect(): void }>(observer: T): T;
+  onCleanup(callback: () => void): void;
+  readonly disposed: boolean;
+}
+
+/**
+ * `this` inside a hook built with createHook: LiveView's hook API, the
+ * hook's own fields and methods, and its scope
+ */
+export type HookInstance<T> = PhoenixLiveViewHook &
+  Required<Pick<PhoenixLiveViewHook, 'pushEvent' | 'pushEventTo' | 'handleEvent' | 'removeHandleEvent'>> &
+  T & { scope: HookScope };
+
+export interface HookLifecycle {
+  mounted?: () => void | Promise<void>;
+  beforeUpdate?: () => void;
+  updated?: () => void;
+  destroyed?: () => void;
+  disconnected?: () => void;
+  reconnected?: () => void;
+}
+
 export interface TerminalHookConfig {
   enableDebug?: boolean;
   focusOnClick?: boolean;
@@ -37,4 +103,22 @@ export interface KeyboardHandlerConfig {
   terminalKeys?: string[];
   preventDefault?: boolean;
   stopPropagation?: boolean;
-}
\ No newline at end of file
+}
+
+export type LazyHookState = 'idle' | 'loading' | 'loaded' | 'failed';
+
+export type LazyHookPrefetchTrigger = 'idle' | 'visible' | 'hover';
+
+export interface LazyHookStatus {
+  name: string;
+  state: LazyHookState;
+  loadedAt?: number;
+  loadTimeMs?: number;
+  error?: string;
+  // Import attempts made by the last load, including retries
+  attempts?: number;
+  // Set when the chunk is gone from the server (a deploy since page load)
+  stale?: boolean;
+  prefetchedBy?: LazyHookPrefetchTrigger;
+  prefetchedAt?: number;
+}
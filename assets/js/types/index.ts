@@ -7,25 +7,63 @@ export interface CellDimensions {
   height: number;
 }
 
+/**
+ * Per-glyph advance widths (px) of character classes that often come
+ * from a fallback font
+ */
+export interface GlyphWidths {
+  boxDrawing: number;
+  block: number;
+  wide: number;
+  emoji: number;
+}
+
+export interface CellMetrics extends CellDimensions {
+  glyphs: GlyphWidths;
+  // The requested font family isn't available; another font was measured
+  fallbackFont: boolean;
+  // Measuring failed and these are defaults
+  estimated: boolean;
+  error?: string;
+}
+
 export interface GridConfig {
   container: HTMLElement;
   fontFamily?: string;
   fontSize?: string;
   lineHeight?: string;
-  testCharacter?: string;
+  sample?: string;
 }
 
 export interface GridProperties {
   cellWidth: number;
   cellHeight: number;
   columns: number;
+  rows: number;
   exactWidth: number;
 }
 
+export interface GridEvents {
+  // Cell size or column/row count changed (resize, font swap)
+  change: GridProperties;
+}
+
+export type GridEdge = 'top' | 'right' | 'bottom' | 'left';
+
+export interface EdgeAlignment {
+  // Distance past the previous gridline, in px
+  offset: number;
+  // Signed px that moves the edge onto the nearest gridline
+  snap: number;
+  aligned: boolean;
+}
+
 export interface AlignmentResult {
   isAligned: boolean;
   rowOffset?: number;
   colOffset?: number;
+  // Checked edges only
+  edges?: Partial<Record<GridEdge, EdgeAlignment>>;
 }
 
 export interface DebugResult {
@@ -34,9 +72,50 @@ export interface DebugResult {
   cells: HTMLElement[];
 }
 
+export interface AlignmentCount {
+  checked: number;
+  misaligned: number;
+}
+
+/**
+ * Alignment of one page, grouped for telemetry (GridAlignmentMonitor)
+ */
+export interface AlignmentSummary {
+  path: string;
+  cell: CellDimensions;
+  checked: number;
+  misaligned: number;
+  // More elements matched than the monitor checks
+  truncated: boolean;
+  bySelector: Record<string, AlignmentCount>;
+  // Misaligned elements per rendering component
+  byComponent: Record<string, number>;
+  // Misaligned elements per off-grid edge
+  byEdge: Partial<Record<GridEdge, number>>;
+}
+
 export type EventCallback = () => void;
 
 export interface GridEventListeners {
   resize?: EventCallback;
   fontLoad?: EventCallback;
-}
\ No newline at end of file
+}
+
+/**
+ * Spotify player command, as pushed by the server or sent by client controls
+ */
+export interface SpotifyCommand {
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * Events on the shared client-side bus (see event_bus.ts), by name
+ */
+export interface ClientEvents {
+  'spotify:command': SpotifyCommand;
+  // All progressive font tiers settled; glyph metrics are final
+  'fonts:stable': void;
+  // Theme class swapped on <html> (including picker previews); CSS vars now reflect it
+  'theme:change': { id: string };
+}
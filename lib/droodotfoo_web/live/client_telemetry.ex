@@ -0,0 +1,102 @@
+defmodule DroodotfooWeb.Live.ClientTelemetry do
+  @moduledoc """
+  Handles telemetry events pushed by client-side hooks.
+
+  Mounted on the main live_session, so every LiveView in it accepts these
+  events without defining `handle_event/3` itself:
+
+    * `"grid_alignment"` - elements off the monospace grid (GridAlignmentHook)
+    * `"font_timings"` - how long each font face took to load (FontTelemetryHook)
+    * `"hook_load_failed"` - a lazy hook's chunk didn't load, from elements
+      with `data-report-load-failure`
+
+  Each event is logged and re-emitted as a `:telemetry` event under
+  `[:droodotfoo, :client, ...]`. Payloads come from the browser, so only
+  known fields are read and counts are checked before use.
+  """
+
+  import Phoenix.LiveView
+  require Logger
+
+  def on_mount(:default, _params, _session, socket) do
+    {:cont, attach_hook(socket, :client_telemetry, :handle_event, &handle_event/3)}
+  end
+
+  defp handle_event("grid_alignment", params, socket) do
+    checked = count(params, "checked")
+    misaligned = count(params, "misaligned")
+    path = Map.get(params, "path")
+
+    :telemetry.execute(
+      [:droodotfoo, :client, :grid_alignment],
+      %{checked: checked, misaligned: misaligned},
+      %{view: socket.view, path: path}
+    )
+
+    # Posts are checked on every page view; per-report warnings would flood the log
+    if misaligned > 0 do
+      Logger.debug(
+        "Grid alignment: #{misaligned}/#{checked} misaligned on #{inspect(path)} " <>
+          "(#{inspect(socket.view)}) by component #{inspect(Map.get(params, "byComponent"))}"
+      )
+    end
+
+    {:halt, socket}
+  end
+
+  defp handle_event("font_timings", params, socket) do
+    timings = params |> Map.get("timings") |> List.wrap() |> Enum.filter(&is_map/1)
+    failed = Enum.count(timings, &(Map.get(&1, "status") == "failed"))
+
+    slowest =
+      timings
+      |> Enum.map(&Map.get(&1, "durationMs"))
+      |> Enum.filter(&is_number/1)
+      |> Enum.max(fn -> 0 end)
+
+    :telemetry.execute(
+      [:droodotfoo, :client, :font_timings],
+      %{faces: length(timings), failed: failed, slowest_ms: slowest},
+      %{
+        view: socket.view,
+        data_mode: Map.get(params, "data_mode"),
+        effective_type: Map.get(params, "effective_type")
+      }
+    )
+
+    Logger.info(
+      "Font timings: #{length(timings)} faces, #{failed} failed, slowest #{round(slowest)}ms " <>
+        "(#{inspect(Map.get(params, "data_mode"))}, #{inspect(Map.get(params, "effective_type"))})"
+    )
+
+    {:halt, socket}
+  end
+
+  defp handle_event("hook_load_failed", params, socket) do
+    hook = Map.get(params, "hook")
+    attempts = count(params, "attempts")
+
+    :telemetry.execute(
+      [:droodotfoo, :client, :hook_load_failed],
+      %{attempts: attempts},
+      %{view: socket.view, hook: hook, stale: Map.get(params, "stale") == true}
+    )
+
+    Logger.warning(
+      "Lazy hook #{inspect(hook)} failed to load after #{attempts} attempts " <>
+        "(#{inspect(socket.view)}, stale: #{Map.get(params, "stale") == true}, " <>
+        "online: #{Map.get(params, "online") == true}): #{inspect(Map.get(params, "error"))}"
+    )
+
+    {:halt, socket}
+  end
+
+  defp handle_event(_event, _params, socket), do: {:cont, socket}
+
+  defp count(params, key) do
+    case Map.get(params, key) do
+      value when is_integer(value) and value >= 0 -> value
+      _ -> 0
+    end
+  end
+end
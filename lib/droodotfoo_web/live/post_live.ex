@@ -90,7 +90,12 @@ defmodule DroodotfooWeb.PostLive do
       <div class="reading-progress-bar"></div>
     </div>
 
-    <div class="monospace-container">
+    <div
+      class="monospace-container"
+      id="post-page"
+      phx-hook="GridAlignmentHook"
+      data-grid-selectors="h1;h2;h3;p;pre;table;img"
+    >
       <.site_header />
       <.site_nav current_path={@current_path} />
 
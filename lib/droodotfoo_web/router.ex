@@ -152,7 +152,9 @@ defmodule DroodotfooWeb.Router do
     pipe_through :browser
 
     # All LiveViews share a session so navigation preserves the music player
-    live_session :default, layout: {DroodotfooWeb.Layouts, :app} do
+    live_session :default,
+      layout: {DroodotfooWeb.Layouts, :app},
+      on_mount: DroodotfooWeb.Live.ClientTelemetry do
       live "/", DroodotfooLive
       live "/about", AboutLive
       live "/now", NowLive
@@ -5,6 +5,23 @@
 
 import STLViewerClient from '../components/STLViewer';
 
+// Site-wide shortcut registry exposed by the Phoenix bundle (assets/js/shortcuts.ts)
+interface ShortcutRegistryLike {
+  register(options: {
+    id: string;
+    keys: string;
+    description: string;
+    handler: (event: KeyboardEvent) => void;
+    scope?: 'global' | 'terminal' | 'stl' | 'modal';
+  }): () => void;
+}
+
+declare global {
+  interface Window {
+    shortcuts?: ShortcutRegistryLike;
+  }
+}
+
 interface LiveViewBridgeOptions {
   componentId: string;
   onModelLoaded?: (info: any) => void;
@@ -15,6 +32,9 @@ export class LiveViewBridge {
   private stlViewer: STLViewerClient | null = null;
   private options: LiveViewBridgeOptions;
   private eventListeners: Map<string, Function> = new Map();
+  private container: HTMLElement | null = null;
+  private unregisterShortcuts: Array<() => void> = [];
+  private readonly onContainerKeyDown = (event: KeyboardEvent) => this.handleKeyboardEvent(event);
 
   constructor(options: LiveViewBridgeOptions) {
     this.options = options;
@@ -26,11 +46,46 @@ export class LiveViewBridge {
     document.addEventListener('phx:stl_command', (event: CustomEvent) => {
       this.handleSTLCommand(event.detail);
     });
+  }
 
-    // Listen for keyboard events
-    document.addEventListener('keydown', (event: KeyboardEvent) => {
-      this.handleKeyboardEvent(event);
-    });
+  /**
+   * Binds viewer keys to the container only, so they don't fire elsewhere on
+   * the page. Uses the site shortcut registry when the Phoenix bundle is
+   * loaded, otherwise a keydown listener on the container itself.
+   */
+  private setupKeyboardControls(container: HTMLElement) {
+    container.setAttribute('data-shortcut-scope', 'stl');
+    if (!container.hasAttribute('tabindex')) {
+      container.tabIndex = 0;
+    }
+
+    const registry = window.shortcuts;
+    if (!registry) {
+      container.addEventListener('keydown', this.onContainerKeyDown);
+      return;
+    }
+
+    const bindings: Array<{ id: string; keys: string; description: string; run: () => void }> = [
+      { id: 'rotate-left', keys: 'j', description: 'Rotate left', run: () => this.stlViewer?.rotateCamera('y', 0.1) },
+      { id: 'rotate-right', keys: 'k', description: 'Rotate right', run: () => this.stlViewer?.rotateCamera('y', -0.1) },
+      { id: 'rotate-up', keys: 'h', description: 'Rotate up', run: () => this.stlViewer?.rotateCamera('x', 0.1) },
+      { id: 'rotate-down', keys: 'l', description: 'Rotate down', run: () => this.stlViewer?.rotateCamera('x', -0.1) },
+      { id: 'zoom-in', keys: '+', description: 'Zoom in', run: () => this.stlViewer?.zoom(-0.5) },
+      { id: 'zoom-in-alt', keys: '=', description: 'Zoom in', run: () => this.stlViewer?.zoom(-0.5) },
+      { id: 'zoom-out', keys: '-', description: 'Zoom out', run: () => this.stlViewer?.zoom(0.5) },
+      { id: 'reset', keys: 'r', description: 'Reset camera', run: () => this.stlViewer?.resetCamera() },
+      { id: 'mode', keys: 'm', description: 'Cycle render mode', run: () => this.stlViewer?.cycleRenderMode() },
+    ];
+
+    this.unregisterShortcuts = bindings.map(({ id, keys, description, run }) =>
+      registry.register({
+        id: `stl.${id}`,
+        keys,
+        description,
+        scope: 'stl',
+        handler: run,
+      })
+    );
   }
 
   private handleSTLCommand(payload: { command: { type: string; [key: string]: any } }) {
@@ -93,6 +148,9 @@ export class LiveViewBridge {
   }
 
   public initializeSTLViewer(container: HTMLElement) {
+    this.container = container;
+    this.setupKeyboardControls(container);
+
     this.stlViewer = new STLViewerClient(container, {
       componentId: this.options.componentId,
       onModelLoaded: (info) => {
@@ -121,6 +179,11 @@ export class LiveViewBridge {
   }
 
   public destroy() {
+    this.unregisterShortcuts.forEach(unregister => unregister());
+    this.unregisterShortcuts = [];
+    this.container?.removeEventListener('keydown', this.onContainerKeyDown);
+    this.container = null;
+
     if (this.stlViewer) {
       this.stlViewer.destroy();
       this.stlViewer = null;
@@ -0,0 +1,128 @@
+defmodule DroodotfooWeb.Live.ClientTelemetryTest do
+  use DroodotfooWeb.ConnCase, async: true
+  import Phoenix.LiveViewTest
+
+  @moduletag :capture_log
+
+  @events [
+    [:droodotfoo, :client, :grid_alignment],
+    [:droodotfoo, :client, :font_timings],
+    [:droodotfoo, :client, :hook_load_failed]
+  ]
+
+  setup do
+    test_pid = self()
+    handler_id = "client-telemetry-test-#{inspect(make_ref())}"
+
+    :telemetry.attach_many(
+      handler_id,
+      @events,
+      fn event, measurements, metadata, _config ->
+        send(test_pid, {:telemetry, event, measurements, metadata})
+      end,
+      nil
+    )
+
+    on_exit(fn -> :telemetry.detach(handler_id) end)
+    :ok
+  end
+
+  describe "grid_alignment" do
+    test "emits counts and path", %{conn: conn} do
+      {:ok, view, _html} = live(conn, ~p"/about")
+
+      render_hook(view, "grid_alignment", %{
+        "checked" => 12,
+        "misaligned" => 2,
+        "path" => "/about",
+        "byComponent" => %{"page" => 2}
+      })
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :grid_alignment],
+                      %{checked: 12, misaligned: 2}, %{path: "/about"}}
+    end
+
+    test "treats malformed counts as zero", %{conn: conn} do
+      {:ok, view, _html} = live(conn, ~p"/about")
+
+      render_hook(view, "grid_alignment", %{
+        "checked" => "lots",
+        "misaligned" => -1,
+        "path" => %{"not" => "a path"}
+      })
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :grid_alignment],
+                      %{checked: 0, misaligned: 0}, _metadata}
+
+      assert render(view)
+    end
+  end
+
+  describe "font_timings" do
+    test "emits face count, failures and the slowest load", %{conn: conn} do
+      {:ok, view, _html} = live(conn, ~p"/about")
+
+      render_hook(view, "font_timings", %{
+        "timings" => [
+          %{"family" => "Monaspace Argon", "status" => "loaded", "durationMs" => 120.5},
+          %{"family" => "Monaspace Argon", "status" => "failed", "durationMs" => 3000}
+        ],
+        "data_mode" => "full",
+        "effective_type" => "4g"
+      })
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :font_timings],
+                      %{faces: 2, failed: 1, slowest_ms: 3000},
+                      %{data_mode: "full", effective_type: "4g"}}
+    end
+
+    test "skips malformed timings", %{conn: conn} do
+      {:ok, view, _html} = live(conn, ~p"/about")
+
+      render_hook(view, "font_timings", %{"timings" => ["nope", %{"durationMs" => "slow"}]})
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :font_timings],
+                      %{faces: 1, failed: 0, slowest_ms: 0}, _metadata}
+
+      render_hook(view, "font_timings", %{"timings" => "nope"})
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :font_timings],
+                      %{faces: 0, failed: 0, slowest_ms: 0}, _metadata}
+
+      assert render(view)
+    end
+  end
+
+  describe "hook_load_failed" do
+    test "emits attempts, hook and stale flag", %{conn: conn} do
+      {:ok, view, _html} = live(conn, ~p"/about")
+
+      render_hook(view, "hook_load_failed", %{
+        "hook" => "STLViewerHook",
+        "attempts" => 3,
+        "stale" => true,
+        "online" => true,
+        "error" => "Failed to fetch dynamically imported module"
+      })
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :hook_load_failed], %{attempts: 3},
+                      %{hook: "STLViewerHook", stale: true}}
+    end
+
+    test "handles malformed fields", %{conn: conn} do
+      {:ok, view, _html} = live(conn, ~p"/about")
+
+      render_hook(view, "hook_load_failed", %{
+        "hook" => ["STLViewerHook"],
+        "attempts" => "3",
+        "stale" => "yes",
+        "error" => %{"message" => "boom"}
+      })
+
+      assert_receive {:telemetry, [:droodotfoo, :client, :hook_load_failed], %{attempts: 0},
+                      %{stale: false}}
+
+      assert render(view)
+    end
+  end
+end